@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startRequestTimer } from "@/app/server/metrics";
+import { getVisionProvider } from "@/app/server/providers";
+import { toUsageReport } from "@/app/server/usage";
+import {
+  admitSessionRequest,
+  chargeSessionBudget,
+  readJsonBody,
+  visionErrorResponse
+} from "@/app/server/vision-request";
+import { MAX_OBSERVATION_LENGTH, MAX_OBSERVATIONS } from "@/app/visual-memory";
+
+const SUMMARY_PROMPT = `You maintain a short memory of what a camera has seen during a live voice call.
+Merge the earlier summary and the timestamped observations below into one compact paragraph of at most 3 sentences.
+Keep concrete facts (objects, verbatim text, people, what changed and when). Drop repetition.
+Do not mention photos, images, or cameras.`;
+
+// Room for the observations and the earlier summary at their maximum
+// lengths, even if every character were escaped as \uXXXX.
+const MAX_BODY_BYTES = (MAX_OBSERVATIONS + 1) * MAX_OBSERVATION_LENGTH * 6 + 4096;
+
+/**
+ * Compacts older visual memory entries into a short summary. Uses the same
+ * provider, session token, rate limits and token budget as /api/vision.
+ */
+export async function POST(request: NextRequest) {
+  const headers: Record<string, string> = {};
+  const endTimer = startRequestTimer("memory_summarize");
+
+  try {
+    const session = await admitSessionRequest(request, headers);
+    if (session instanceof NextResponse) {
+      endTimer(session.status);
+      return session;
+    }
+
+    const { previousSummary, observations } = await readJsonBody(request, MAX_BODY_BYTES);
+
+    if (!Array.isArray(observations) || observations.length === 0
+      || observations.length > MAX_OBSERVATIONS
+      || observations.some(o => typeof o !== "string" || o.length > MAX_OBSERVATION_LENGTH)) {
+      endTimer(400);
+      return NextResponse.json(
+        { error: `observations must be 1–${MAX_OBSERVATIONS} strings of at most ${MAX_OBSERVATION_LENGTH} characters` },
+        { status: 400, headers }
+      );
+    }
+
+    const earlier = typeof previousSummary === "string" && previousSummary.trim()
+      ? previousSummary.slice(0, MAX_OBSERVATION_LENGTH)
+      : "(none)";
+
+    await chargeSessionBudget(session, headers);
+
+    const result = await getVisionProvider().complete({
+      prompt: `${SUMMARY_PROMPT}\n\nEarlier summary: ${earlier}\n\nObservations:\n${observations.map(o => `- ${o}`).join("\n")}`,
+      generation: { maxOutputTokens: 200, temperature: 0.2, topP: 0.8 }
+    });
+
+    endTimer(200);
+    return NextResponse.json({
+      summary: result.text.trim(),
+      ...(result.usage ? { usage: toUsageReport(result.usage) } : {}),
+      timestamp: Date.now(),
+      success: true
+    }, { headers });
+
+  } catch (error) {
+    const response = visionErrorResponse(error, headers);
+    endTimer(response.status);
+    return response;
+  }
+}
@@ -0,0 +1,45 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { renderMetrics } from "@/app/server/metrics";
+
+function matchesToken(header: string | null, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(header ?? ""), digest(`Bearer ${token}`));
+}
+
+let warnedAboutToken = false;
+
+/**
+ * Prometheus scrape endpoint. With `METRICS_TOKEN` set, scrapers must send
+ * it as a bearer token. Without it the endpoint is open in development but
+ * refused in production unless `METRICS_PUBLIC=true` opts in.
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN;
+  const open = process.env.NODE_ENV !== "production" || process.env.METRICS_PUBLIC === "true";
+
+  if (!token && !open) {
+    if (!warnedAboutToken) {
+      console.error("METRICS_TOKEN is not set; refusing metrics scrapes");
+      warnedAboutToken = true;
+    }
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  if (token && !matchesToken(request.headers.get("authorization"), token)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store"
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getClientIp,
+  getSessionRateLimiter,
+  rateLimitHeaders,
+  sessionRateLimitConfig
+} from "@/app/server/rate-limit";
+import {
+  SessionClaims,
+  SessionTokenError,
+  getRequestOrigin,
+  isAllowedOrigin,
+  issueSessionToken,
+  readBearerToken,
+  refreshSessionToken
+} from "@/app/server/session-token";
+
+function tokenResponse(token: string, claims: SessionClaims, headers: Record<string, string> = {}) {
+  return NextResponse.json({
+    token,
+    sessionId: claims.sid,
+    expiresAt: claims.exp * 1000,
+    budget: claims.budget ?? null,
+    success: true
+  }, { headers: { ...headers, "Cache-Control": "no-store" } });
+}
+
+/**
+ * Issues a session token. A request carrying the session's current (or
+ * recently expired) token gets a new token for the same session, so its
+ * budget and the calls bound to it carry over; other requests start a new
+ * session and are rate limited per IP.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const origin = getRequestOrigin(request);
+
+    if (!origin || !isAllowedOrigin(origin)) {
+      return NextResponse.json(
+        { error: "Origin not allowed" },
+        { status: 403 }
+      );
+    }
+
+    const previous = readBearerToken(request);
+    if (previous) {
+      try {
+        const { token, claims } = refreshSessionToken(previous, origin);
+        return tokenResponse(token, claims);
+      } catch (error) {
+        // An unusable token just means a new session.
+        if (!(error instanceof SessionTokenError)) throw error;
+      }
+    }
+
+    const decision = await getSessionRateLimiter().consume(`ip:${getClientIp(request)}`);
+    const headers = rateLimitHeaders(decision, sessionRateLimitConfig);
+
+    if (!decision.allowed) {
+      return NextResponse.json(
+        { error: "Rate limited", message: "Too many session requests" },
+        { status: 429, headers }
+      );
+    }
+
+    const { token, claims } = issueSessionToken(origin);
+    return tokenResponse(token, claims, headers);
+
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    return NextResponse.json(
+      { error: "Failed to issue session token", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storeFrame } from "@/app/server/frame-store";
+import { ImageIntakeError, intakeImage } from "@/app/server/image-intake";
+import { startRequestTimer } from "@/app/server/metrics";
+import { frameRateLimitConfig, getClientKeys, getFrameRateLimiter, rateLimitHeaders } from "@/app/server/rate-limit";
+import { SessionTokenError, authenticateRequest } from "@/app/server/session-token";
+import { RequestBodyError, readJsonBody } from "@/app/server/vision-request";
+
+// Roughly a 1280×960 JPEG; the capture loop sends far smaller frames.
+const MAX_FRAME_BASE64_LENGTH = 2 * 1024 * 1024;
+
+/**
+ * Receives the latest capture for an active call so /api/vapi/tools can
+ * answer vision tool calls without a round trip to the browser. A call is
+ * bound to the session that pushes its first frame.
+ */
+export async function POST(request: NextRequest) {
+  let headers: Record<string, string> = {};
+  const endTimer = startRequestTimer("vapi_frame");
+
+  try {
+    const session = authenticateRequest(request);
+    const decision = await getFrameRateLimiter().consume(getClientKeys(request, session.sid));
+    headers = rateLimitHeaders(decision, frameRateLimitConfig);
+
+    if (!decision.allowed) {
+      endTimer(429);
+      return NextResponse.json(
+        { error: "Rate limited", message: "Too many frame uploads" },
+        { status: 429, headers }
+      );
+    }
+
+    const { callId, imageBase64, mirrored } = await readJsonBody(request, MAX_FRAME_BASE64_LENGTH + 4096);
+
+    if (typeof callId !== "string" || !callId || typeof imageBase64 !== "string" || !imageBase64) {
+      endTimer(400);
+      return NextResponse.json(
+        { error: "callId and imageBase64 are required" },
+        { status: 400, headers }
+      );
+    }
+
+    if (imageBase64.length > MAX_FRAME_BASE64_LENGTH) {
+      endTimer(413);
+      return NextResponse.json(
+        { error: "Frame too large" },
+        { status: 413, headers }
+      );
+    }
+
+    const stored = storeFrame(callId, {
+      image: await intakeImage(imageBase64, "Frame"),
+      sessionId: session.sid,
+      mirrored: Boolean(mirrored),
+      timestamp: Date.now()
+    });
+
+    if (!stored) {
+      endTimer(403);
+      return NextResponse.json(
+        { error: "This call belongs to another session", code: "call_not_owned" },
+        { status: 403, headers }
+      );
+    }
+
+    endTimer(200);
+    return NextResponse.json({ success: true }, { headers });
+
+  } catch (error) {
+    if (error instanceof SessionTokenError || error instanceof ImageIntakeError || error instanceof RequestBodyError) {
+      endTimer(error.status);
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status, headers }
+      );
+    }
+
+    console.error('Frame upload error:', error);
+
+    endTimer(500);
+    return NextResponse.json(
+      { error: "Failed to store frame", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500, headers }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { describeImage } from "@/app/server/describe";
+import { getFrame } from "@/app/server/frame-store";
+import { startRequestTimer } from "@/app/server/metrics";
+import { getVisionRateLimiter } from "@/app/server/rate-limit";
+import { getVisionPreset, sanitizeQuestion } from "@/app/server/vision-presets";
+import { describeVisionError } from "@/app/server/vision-request";
+import { MAX_QUESTION_LENGTH } from "@/app/vision-modes";
+import { VisionToolCall, isToolCallsMessage, parseVisionToolCalls, toolQuestion, VISION_TOOL_MODES } from "@/app/vision-tools";
+
+const MIRRORED_SIDES: Record<string, string> = { left: "right", right: "left" };
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  if (!secret) return false;
+
+  const provided = Buffer.from(request.headers.get("x-vapi-secret") ?? "");
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * The stored frame is the raw capture, while regions are named as the user
+ * sees a mirrored preview, so left and right swap for mirrored frames.
+ */
+function regionHint(region: unknown, mirrored: boolean): string {
+  if (typeof region !== "string" || !region.trim()) return "";
+  const parts = region.trim().toLowerCase().split(/[\s-]+/);
+  const sides = mirrored ? parts.map(part => MIRRORED_SIDES[part] ?? part) : parts;
+  return `Focus only on the ${sides.join("-")} part of the view and read any small print there.`;
+}
+
+async function runTool(call: VisionToolCall, callId: string): Promise<string> {
+  const frame = getFrame(callId);
+  if (!frame) {
+    return "No camera frame is available for this call yet.";
+  }
+
+  const decision = await getVisionRateLimiter().consume(`call:${callId}`);
+  if (!decision.allowed) {
+    return `Vision is rate limited. Try again in ${Math.ceil((decision.retryAfterMs ?? 0) / 1000)} seconds.`;
+  }
+
+  // The assistant's question is as untrusted as a user's: it is cleaned and
+  // bounded the same way /api/vision does before it reaches the prompt.
+  const asked = sanitizeQuestion(toolQuestion(call) ?? "").slice(0, MAX_QUESTION_LENGTH);
+  const question = [
+    call.name === "zoom_on" ? regionHint(call.args.region, frame.mirrored) : "",
+    asked
+  ].filter(Boolean).join(" ");
+
+  const { description } = await describeImage({
+    preset: getVisionPreset(VISION_TOOL_MODES[call.name]),
+    image: frame.image,
+    question: question || undefined
+  });
+  return description;
+}
+
+/**
+ * Server URL webhook for assistants that call vision tools on our backend.
+ * Answers `tool-calls` messages using the latest frame the browser pushed
+ * for the call to /api/vapi/frame.
+ */
+export async function POST(request: NextRequest) {
+  const endTimer = startRequestTimer("vapi_tools");
+
+  if (!isAuthorized(request)) {
+    endTimer(401);
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { message } = await request.json();
+    const calls = isToolCallsMessage(message) ? parseVisionToolCalls(message) : [];
+    const callId = isToolCallsMessage(message) ? message.call?.id : undefined;
+
+    if (calls.length === 0 || typeof callId !== "string") {
+      endTimer(200);
+      return NextResponse.json({});
+    }
+
+    const results = await Promise.all(calls.map(async call => {
+      try {
+        return { name: call.name, toolCallId: call.id, result: await runTool(call, callId) };
+      } catch (error) {
+        return { name: call.name, toolCallId: call.id, error: describeVisionError(error).body.error };
+      }
+    }));
+
+    endTimer(200);
+    return NextResponse.json({ results });
+
+  } catch (error) {
+    console.error('Vapi tools webhook error:', error);
+    endTimer(500);
+
+    return NextResponse.json(
+      { error: "Failed to handle tool calls" },
+      { status: 500 }
+    );
+  }
+}
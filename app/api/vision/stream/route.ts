@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startRequestTimer } from "@/app/server/metrics";
+import { getVisionProvider, streamDescription } from "@/app/server/providers";
+import { TokenUsage } from "@/app/server/providers";
+import { ChangesStreamSplitter } from "@/app/server/scene-changes";
+import { addUsage, toUsageReport } from "@/app/server/usage";
+import { withVisionCache } from "@/app/server/vision-cache";
+import { buildVisionPrompt } from "@/app/server/vision-presets";
+import { describeVisionError, prepareVisionRequest, visionErrorResponse } from "@/app/server/vision-request";
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streaming variant of /api/vision. Sends `chunk` events with partial text
+ * as it is generated, then a `done` event carrying the same fields as the
+ * JSON route, or an `error` event if generation fails midway. Structured
+ * scenes are not streamed; this route always produces prose. With a
+ * previous frame the "Changes:" line is held back from the chunks and only
+ * reported as `changes` in `done`. Cache hits come as one chunk, with
+ * `cached: true` in `done`; a request that joins an identical one in flight
+ * gets that call's chunks so far, then the rest as they arrive.
+ */
+export async function POST(request: NextRequest) {
+  const headers: Record<string, string> = {};
+  // Ends when the stream does, with the status of a mid-stream error if any.
+  const endTimer = startRequestTimer("vision_stream");
+
+  try {
+    const context = await prepareVisionRequest(request, headers);
+    if (context instanceof NextResponse) {
+      endTimer(context.status);
+      return context;
+    }
+
+    const { preset, image, question, mode, previous, sequence, frameIntervalMs } = context;
+    const burst = sequence ? { frames: sequence.length + 1, intervalMs: frameIntervalMs } : undefined;
+    const { prompt, generation } = buildVisionPrompt(preset, { structured: false, question, previous, burst });
+    const provider = getVisionProvider();
+    const encoder = new TextEncoder();
+    // Aborted when the client disconnects; events after that are dropped.
+    // The provider call only stops once no request shares it any more.
+    const client = new AbortController();
+    const abort = () => client.abort();
+    request.signal.addEventListener("abort", abort, { once: true });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let status = 200;
+        const send = (event: string, data: unknown) => {
+          if (client.signal.aborted) return;
+          try {
+            controller.enqueue(encoder.encode(sseEvent(event, data)));
+          } catch {
+            // The consumer went away between the check and the enqueue.
+            client.abort();
+          }
+        };
+
+        try {
+          // Streamed replies are prose, so they share cache entries with
+          // prose requests to /api/vision only.
+          let streamed = false;
+          const { result, cached } = await withVisionCache({ ...context, structured: false }, async (emit, signal) => {
+            const splitter = previous ? new ChangesStreamSplitter() : null;
+            let description = "";
+            let usage: TokenUsage | undefined;
+
+            const chunks = streamDescription(provider, {
+              prompt, image, generation, previous, sequence, signal
+            });
+            for await (const chunk of chunks) {
+              usage = addUsage(usage, chunk.usage);
+              description += chunk.text;
+              const text = splitter ? splitter.push(chunk.text) : chunk.text;
+              if (text) emit(text);
+            }
+
+            const split = splitter ? splitter.finish() : { description: description.trim(), changes: null };
+            return { ...split, scene: null, usage };
+          }, {
+            onChunk: text => {
+              streamed = true;
+              send("chunk", { text });
+            },
+            signal: client.signal
+          });
+
+          // Cache hits, and calls shared with a JSON request, arrive whole.
+          if (!streamed) send("chunk", { text: result.description });
+
+          send("done", {
+            description: result.description,
+            ...(previous ? { changes: result.changes } : {}),
+            ...(burst ? { frames: burst.frames } : {}),
+            ...(result.usage ? { usage: toUsageReport(result.usage) } : {}),
+            mode,
+            cached,
+            timestamp: Date.now(),
+            success: true
+          });
+        } catch (error) {
+          if (client.signal.aborted) {
+            // 499: the client closed the request, as nginx reports it.
+            status = 499;
+          } else {
+            const described = describeVisionError(error);
+            status = described.status;
+            send("error", { ...described.body, status });
+          }
+        } finally {
+          request.signal.removeEventListener("abort", abort);
+          if (!client.signal.aborted) controller.close();
+          endTimer(status);
+        }
+      },
+
+      cancel() {
+        abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...headers,
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive"
+      }
+    });
+
+  } catch (error) {
+    const response = visionErrorResponse(error, headers);
+    endTimer(response.status);
+    return response;
+  }
+}
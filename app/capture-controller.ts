@@ -0,0 +1,186 @@
+export interface CaptureSettings {
+  width: number;
+  height: number;
+  /** JPEG quality passed to `toDataURL`, 0–1. */
+  quality: number;
+  intervalMs: number;
+}
+
+export interface CaptureBounds {
+  minWidth: number;
+  maxWidth: number;
+  minQuality: number;
+  maxQuality: number;
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  /** Average request latency the controller steers towards. */
+  targetLatencyMs: number;
+  /** Upload size above which JPEG quality is lowered. */
+  maxPayloadBytes: number;
+}
+
+export interface CaptureDecision {
+  settings: CaptureSettings;
+  /** Why the last adjustment was made, e.g. "latency 4200ms above target". */
+  reasons: string[];
+  updatedAt: number;
+  sceneChangeRate: number;
+  avgPayloadBytes: number;
+}
+
+const DEFAULT_BOUNDS: CaptureBounds = {
+  minWidth: 240,
+  maxWidth: 640,
+  minQuality: 0.5,
+  maxQuality: 0.85,
+  // The server refills one vision token every 3 seconds by default
+  // (VISION_RATE_LIMIT_REFILL_MS); capturing faster only earns 429s.
+  minIntervalMs: 3000,
+  maxIntervalMs: 10000,
+  targetLatencyMs: 2500,
+  maxPayloadBytes: 60 * 1024,
+};
+
+// Widths the resolution steps through; the height keeps a 4:3 aspect.
+const WIDTH_STEPS = [240, 320, 480, 640, 800, 960, 1280];
+const QUALITY_STEP = 0.05;
+const SCENE_WINDOW = 10;
+// Don't react to every single sample.
+const MIN_UPDATE_INTERVAL_MS = 5000;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Tunes capture resolution, JPEG quality and cadence from measured request
+ * latency, success rate, scene-change rate and upload size, within
+ * configurable bounds. Slow or failing requests back off first on cadence,
+ * then on resolution; a busy scene captures more often and a still one
+ * less often.
+ */
+export class AdaptiveCaptureController {
+  private bounds: CaptureBounds;
+  private settings: CaptureSettings;
+  private reasons: string[] = ['initial'];
+  private updatedAt = 0;
+  private sceneChecks: boolean[] = [];
+  private avgPayloadBytes = 0;
+  private intervalFloorMs = 0;
+
+  constructor(bounds?: Partial<CaptureBounds>) {
+    this.bounds = { ...DEFAULT_BOUNDS, ...bounds };
+    const width = clamp(320, this.bounds.minWidth, this.bounds.maxWidth);
+    this.settings = {
+      width,
+      height: Math.round(width * 3 / 4),
+      quality: clamp(0.7, this.bounds.minQuality, this.bounds.maxQuality),
+      intervalMs: clamp(3000, this.bounds.minIntervalMs, this.bounds.maxIntervalMs),
+    };
+  }
+
+  getSettings(): CaptureSettings {
+    return { ...this.settings, intervalMs: Math.max(this.settings.intervalMs, this.intervalFloorMs) };
+  }
+
+  /**
+   * Holds the interval at or above `ms` regardless of measurements, e.g.
+   * while a usage budget is nearly spent. 0 removes the floor.
+   */
+  setIntervalFloor(ms: number) {
+    this.intervalFloorMs = ms;
+  }
+
+  getDecision(): CaptureDecision {
+    return {
+      settings: this.getSettings(),
+      reasons: this.intervalFloorMs > this.settings.intervalMs
+        ? [...this.reasons, `interval held at ${this.intervalFloorMs}ms`]
+        : [...this.reasons],
+      updatedAt: this.updatedAt,
+      sceneChangeRate: Math.round(this.getSceneChangeRate() * 100) / 100,
+      avgPayloadBytes: Math.round(this.avgPayloadBytes),
+    };
+  }
+
+  /** Records whether a capture differed enough from the last upload to be sent. */
+  recordSceneCheck(changed: boolean) {
+    this.sceneChecks.push(changed);
+    if (this.sceneChecks.length > SCENE_WINDOW) this.sceneChecks.shift();
+  }
+
+  recordPayload(bytes: number) {
+    this.avgPayloadBytes = this.avgPayloadBytes
+      ? this.avgPayloadBytes * 0.7 + bytes * 0.3
+      : bytes;
+  }
+
+  /**
+   * Re-evaluates the settings against the latest request metrics. Returns
+   * true when anything changed.
+   */
+  update(metrics: { avgProcessingTime: number; successRate: number }, now = Date.now()): boolean {
+    if (now - this.updatedAt < MIN_UPDATE_INTERVAL_MS) return false;
+
+    const { bounds } = this;
+    const next = { ...this.settings };
+    const reasons: string[] = [];
+    const latency = metrics.avgProcessingTime;
+    const sceneChangeRate = this.getSceneChangeRate();
+
+    if (metrics.successRate < 0.8) {
+      next.intervalMs *= 1.5;
+      reasons.push(`success rate ${Math.round(metrics.successRate * 100)}% below 80%`);
+    } else if (latency > bounds.targetLatencyMs) {
+      next.intervalMs *= 1.25;
+      reasons.push(`latency ${Math.round(latency)}ms above target`);
+    } else if (this.sceneChecks.length >= SCENE_WINDOW / 2 && sceneChangeRate > 0.5) {
+      next.intervalMs *= 0.8;
+      reasons.push(`scene changing often (${Math.round(sceneChangeRate * 100)}%)`);
+    } else if (this.sceneChecks.length >= SCENE_WINDOW / 2 && sceneChangeRate < 0.2) {
+      next.intervalMs *= 1.1;
+      reasons.push('scene stable');
+    }
+
+    if (latency > bounds.targetLatencyMs * 1.5) {
+      next.width = this.stepWidth(-1);
+      reasons.push('lower resolution for latency');
+    } else if (latency < bounds.targetLatencyMs * 0.6 && metrics.successRate >= 0.95) {
+      next.width = this.stepWidth(1);
+      if (next.width !== this.settings.width) reasons.push('higher resolution, latency has headroom');
+    }
+
+    if (this.avgPayloadBytes > bounds.maxPayloadBytes) {
+      next.quality -= QUALITY_STEP;
+      reasons.push(`payload ${Math.round(this.avgPayloadBytes / 1024)}KB above limit`);
+    } else if (this.avgPayloadBytes && this.avgPayloadBytes < bounds.maxPayloadBytes * 0.5) {
+      next.quality += QUALITY_STEP;
+    }
+
+    next.intervalMs = Math.round(clamp(next.intervalMs, bounds.minIntervalMs, bounds.maxIntervalMs));
+    next.width = clamp(next.width, bounds.minWidth, bounds.maxWidth);
+    next.height = Math.round(next.width * 3 / 4);
+    next.quality = Math.round(clamp(next.quality, bounds.minQuality, bounds.maxQuality) * 100) / 100;
+
+    const changed = (Object.keys(next) as (keyof CaptureSettings)[]).some(key => next[key] !== this.settings[key]);
+    this.updatedAt = now;
+    if (changed) {
+      this.settings = next;
+      this.reasons = reasons.length > 0 ? reasons : ['compression adjusted for payload size'];
+    }
+    return changed;
+  }
+
+  private getSceneChangeRate(): number {
+    if (this.sceneChecks.length === 0) return 0;
+    return this.sceneChecks.filter(Boolean).length / this.sceneChecks.length;
+  }
+
+  private stepWidth(direction: 1 | -1): number {
+    const steps = WIDTH_STEPS.filter(w => w >= this.bounds.minWidth && w <= this.bounds.maxWidth);
+    if (steps.length === 0) return this.settings.width;
+    const index = steps.findIndex(w => w >= this.settings.width);
+    const current = index === -1 ? steps.length - 1 : index;
+    return steps[clamp(current + direction, 0, steps.length - 1)];
+  }
+}
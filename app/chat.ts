@@ -0,0 +1,25 @@
+// Request shape and limits of /api/chat, shared by the route and the browser
+// speech transport so the client never builds a request the route rejects.
+
+/** A spoken turn. Camera context travels separately, never as a turn. */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  /** Recent camera descriptions and tool results, oldest first. */
+  context: string[];
+  /** The conversation so far, oldest first. */
+  messages: ChatMessage[];
+}
+
+export const MAX_CHAT_MESSAGES = 20;
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+export const MAX_CHAT_CONTEXT_ITEMS = 8;
+export const MAX_CHAT_CONTEXT_LENGTH = 2000;
+
+/** Shortens `text` to at most `max` characters, marking the cut. */
+export function clipChatText(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
@@ -0,0 +1,297 @@
+import { drawDetailFrame } from './frame-capture';
+import { Redactor } from './redaction';
+import { NormalizedRegion } from './vision-tools';
+
+export type DetectedCodeKind = 'qr' | 'barcode' | 'text';
+
+/** A barcode, QR code or text block read in the browser, without a vision request. */
+export interface DetectedCode {
+  kind: DetectedCodeKind;
+  /** Shape Detection API format name such as `qr_code` or `ean_13`; `text` for text blocks. */
+  format: string;
+  value: string;
+  /** Where it was found, in frame fractions. */
+  region?: NormalizedRegion;
+  /** The first http(s) link in the value, if any. */
+  url?: string;
+}
+
+export type CodeDetector = (canvas: HTMLCanvasElement) => Promise<DetectedCode[]>;
+
+type CodeListener = (codes: DetectedCode[]) => void;
+
+// The Shape Detection API is not in TypeScript's DOM lib.
+interface BarcodeDetectorLike {
+  detect(image: CanvasImageSource): Promise<{ rawValue: string; format: string; boundingBox: DOMRectReadOnly }[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorLike;
+  getSupportedFormats?(): Promise<string[]>;
+}
+
+interface TextDetectorLike {
+  detect(image: CanvasImageSource): Promise<{ rawValue?: string; boundingBox: DOMRectReadOnly }[]>;
+}
+
+const shapeDetection = globalThis as typeof globalThis & {
+  BarcodeDetector?: BarcodeDetectorConstructor;
+  TextDetector?: new () => TextDetectorLike;
+};
+
+const FORMAT_LABELS = new Map([
+  ['qr_code', 'QR code'],
+  ['data_matrix', 'Data Matrix code'],
+  ['aztec', 'Aztec code'],
+  ['pdf417', 'PDF417 code'],
+  ['ean_13', 'EAN-13 barcode'],
+  ['ean_8', 'EAN-8 barcode'],
+  ['upc_a', 'UPC-A barcode'],
+  ['upc_e', 'UPC-E barcode'],
+  ['code_128', 'Code 128 barcode'],
+  ['code_39', 'Code 39 barcode'],
+  ['code_93', 'Code 93 barcode'],
+  ['codabar', 'Codabar barcode'],
+  ['itf', 'ITF barcode'],
+  ['text', 'Text'],
+]);
+
+// Payloads are untrusted; long ones are cut before they reach the assistant.
+const MAX_FACT_VALUE_LENGTH = 300;
+
+export function codeUrl(value: string): string | undefined {
+  const match = value.match(/\b(?:https?:\/\/|www\.)[^\s"'<>]+/i);
+  if (!match) return undefined;
+  try {
+    const url = new URL(/^www\./i.test(match[0]) ? `https://${match[0]}` : match[0]);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toCode(format: string, value: string, region?: NormalizedRegion): DetectedCode {
+  return {
+    kind: format === 'text' ? 'text' : format === 'qr_code' ? 'qr' : 'barcode',
+    format,
+    value,
+    region,
+    url: codeUrl(value),
+  };
+}
+
+function boxRegion(box: DOMRectReadOnly, canvas: HTMLCanvasElement): NormalizedRegion {
+  return {
+    x: box.x / canvas.width,
+    y: box.y / canvas.height,
+    width: box.width / canvas.width,
+    height: box.height / canvas.height,
+  };
+}
+
+function formatFact(code: DetectedCode): string {
+  const label = FORMAT_LABELS.get(code.format) ?? `${code.format.replace(/_/g, ' ')} code`;
+  const value = code.value.length > MAX_FACT_VALUE_LENGTH
+    ? `${code.value.slice(0, MAX_FACT_VALUE_LENGTH)}…`
+    : code.value;
+  return `- ${label}: ${JSON.stringify(value)}${code.url ? ' (link)' : ''}`;
+}
+
+/**
+ * Structured facts for the assistant's context. Values are quoted so a
+ * payload reads as data rather than as instructions. Decoded codes are
+ * exact; OCR text is labelled as such, since it can misread characters.
+ */
+export function formatCodeFacts(codes: DetectedCode[]): string {
+  const decoded = codes.filter(code => code.kind !== 'text').map(formatFact);
+  const read = codes.filter(code => code.kind === 'text').map(formatFact);
+  return [
+    ...(decoded.length > 0
+      ? [`Decoded on the device from the camera (exact values, not guessed from the image):\n${decoded.join('\n')}`]
+      : []),
+    ...(read.length > 0
+      ? [`Text read on the device by OCR (may contain recognition errors):\n${read.join('\n')}`]
+      : []),
+  ].join('\n');
+}
+
+/**
+ * Detector backed by the Shape Detection API's `BarcodeDetector`, or null
+ * where the browser doesn't provide it or supports no formats (as on most
+ * desktop platforms).
+ */
+export async function createNativeBarcodeDetector(): Promise<CodeDetector | null> {
+  const BarcodeDetectorImpl = shapeDetection.BarcodeDetector;
+  if (typeof BarcodeDetectorImpl !== 'function') return null;
+
+  const formats = await BarcodeDetectorImpl.getSupportedFormats?.().catch(() => []) ?? [];
+  if (formats.length === 0) return null;
+
+  const detector = new BarcodeDetectorImpl({ formats });
+  return async canvas => {
+    const barcodes = await detector.detect(canvas);
+    return barcodes
+      .filter(barcode => barcode.rawValue)
+      .map(barcode => toCode(barcode.format, barcode.rawValue, boxRegion(barcode.boundingBox, canvas)));
+  };
+}
+
+/**
+ * Fallback decoder using the bundled zxing library, loaded on first use.
+ * Reads one code per frame.
+ */
+export async function createZxingDetector(): Promise<CodeDetector> {
+  const {
+    BarcodeFormat,
+    BinaryBitmap,
+    DecodeHintType,
+    HybridBinarizer,
+    MultiFormatReader,
+    RGBLuminanceSource,
+  } = await import('@zxing/library');
+
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map([[DecodeHintType.POSSIBLE_FORMATS, [
+    BarcodeFormat.QR_CODE,
+    BarcodeFormat.DATA_MATRIX,
+    BarcodeFormat.EAN_13,
+    BarcodeFormat.EAN_8,
+    BarcodeFormat.UPC_A,
+    BarcodeFormat.UPC_E,
+    BarcodeFormat.CODE_128,
+    BarcodeFormat.CODE_39,
+    BarcodeFormat.ITF,
+  ]]]));
+
+  return async canvas => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const luminance = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+
+    let result;
+    try {
+      result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminance, width, height))));
+    } catch {
+      // zxing throws when no code decodes, which is most frames.
+      return [];
+    }
+
+    const points = result.getResultPoints();
+    const xs = points.map(point => point.getX() / width);
+    const ys = points.map(point => point.getY() / height);
+    const region = points.length > 1
+      ? { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+      : undefined;
+    return [toCode(BarcodeFormat[result.getBarcodeFormat()].toLowerCase(), result.getText(), region)];
+  };
+}
+
+/**
+ * Text blocks from the Shape Detection API's `TextDetector`, or null where
+ * the browser doesn't provide it. There is no bundled fallback.
+ */
+export function createTextDetector(): CodeDetector | null {
+  const TextDetectorImpl = shapeDetection.TextDetector;
+  if (typeof TextDetectorImpl !== 'function') return null;
+
+  const detector = new TextDetectorImpl();
+  return async canvas => {
+    const blocks = await detector.detect(canvas);
+    return blocks
+      .filter(block => block.rawValue?.trim())
+      .map(block => toCode('text', block.rawValue!.trim(), boxRegion(block.boundingBox, canvas)));
+  };
+}
+
+/**
+ * Reads barcodes, QR codes and (where supported) text from the video in
+ * the browser, on a detail canvas drawn at up to `maxSize` pixels so small
+ * codes stay legible. Scans are spaced by `minIntervalMs` and skipped while
+ * one is running. Codes seen within `visibleMs` are listed for the overlay;
+ * a code is reported as new again only after `repeatAfterMs` unseen.
+ */
+export class CodeScanner {
+  private canvas: HTMLCanvasElement | null = null;
+  private recent = new Map<string, { code: DetectedCode; seenAt: number }>();
+  private reportedAt = new Map<string, number>();
+  private listeners = new Set<CodeListener>();
+  private busy = false;
+  private lastScanAt = 0;
+
+  constructor(
+    private detectors: CodeDetector[],
+    private options = { maxSize: 1280, minIntervalMs: 1500, visibleMs: 30_000, repeatAfterMs: 60_000 }
+  ) {}
+
+  /** Native barcode detection where available, otherwise zxing; plus native text detection. */
+  static async create(): Promise<CodeScanner> {
+    const barcodes = await createNativeBarcodeDetector() ?? await createZxingDetector();
+    const text = createTextDetector();
+    return new CodeScanner(text ? [barcodes, text] : [barcodes]);
+  }
+
+  /**
+   * Scans the current frame, with `redactor` masks applied first so masked
+   * areas are never read. Resolves with the codes not reported recently,
+   * or an empty list if the scan was skipped.
+   */
+  async scan(video: HTMLVideoElement, redactor?: Redactor, now = Date.now()): Promise<DetectedCode[]> {
+    if (this.busy || now - this.lastScanAt < this.options.minIntervalMs) return [];
+    this.busy = true;
+    this.lastScanAt = now;
+
+    try {
+      this.canvas ??= document.createElement('canvas');
+      if (!await drawDetailFrame(video, this.canvas, this.options.maxSize, redactor)) return [];
+
+      const results = await Promise.all(this.detectors.map(detect => detect(this.canvas!).catch(() => [])));
+      const fresh: DetectedCode[] = [];
+      for (const code of results.flat()) {
+        const key = `${code.format}:${code.value}`;
+        const last = this.reportedAt.get(key);
+        if (last === undefined || now - last > this.options.repeatAfterMs) fresh.push(code);
+        this.reportedAt.set(key, now);
+        this.recent.set(key, { code, seenAt: now });
+      }
+
+      for (const [key, entry] of this.recent) {
+        if (now - entry.seenAt > this.options.visibleMs) this.recent.delete(key);
+      }
+      for (const [key, seenAt] of this.reportedAt) {
+        if (now - seenAt > this.options.repeatAfterMs) this.reportedAt.delete(key);
+      }
+      this.notify();
+      return fresh;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /** Codes seen within `visibleMs`, newest first. */
+  getRecent(): DetectedCode[] {
+    return [...this.recent.values()].sort((a, b) => b.seenAt - a.seenAt).map(entry => entry.code);
+  }
+
+  /** Hides a code from the recent list until it is seen again. */
+  dismiss(code: DetectedCode) {
+    if (this.recent.delete(`${code.format}:${code.value}`)) this.notify();
+  }
+
+  /** Called with the recent list after every scan. Returns an unsubscribe function. */
+  subscribe(listener: CodeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const codes = this.getRecent();
+    this.listeners.forEach(listener => listener(codes));
+  }
+}
@@ -0,0 +1,52 @@
+'use client';
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLink } from '@fortawesome/free-solid-svg-icons';
+import { DetectedCode } from '../code-scanner';
+
+interface CodeChipsProps {
+  /** Recently decoded codes; only those with a link are shown. */
+  codes: DetectedCode[];
+  onDismiss: (code: DetectedCode) => void;
+}
+
+function linkLabel(url: string): string {
+  const { host, pathname } = new URL(url);
+  const label = pathname === '/' ? host : `${host}${pathname}`;
+  return label.length > 40 ? `${label.slice(0, 39)}…` : label;
+}
+
+/** Links read from QR codes and text, as chips that open in a new tab. */
+export default function CodeChips({ codes, onDismiss }: CodeChipsProps) {
+  const links = codes.filter(code => code.url);
+  if (links.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {links.map(code => (
+        <div
+          key={`${code.format}:${code.value}`}
+          className="flex items-center bg-black/60 backdrop-blur-sm text-white text-sm rounded-full pl-3 pr-1 py-1 space-x-2"
+        >
+          <a
+            href={code.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-2 hover:underline"
+            title={code.url}
+          >
+            <FontAwesomeIcon icon={faLink} style={{ width: 12, height: 12 }} />
+            <span>{linkLabel(code.url!)}</span>
+          </a>
+          <button
+            onClick={() => onDismiss(code)}
+            className="bg-white/20 hover:bg-white/30 rounded-full w-5 h-5 flex items-center justify-center text-xs"
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
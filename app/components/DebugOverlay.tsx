@@ -0,0 +1,85 @@
+'use client';
+import React from 'react';
+import { PerformanceMetrics } from '../secure-vision';
+
+interface DebugOverlayProps {
+  metrics: PerformanceMetrics | null;
+  /** Data URL of the last captured frame, after redaction. */
+  thumbnail: string | null;
+  description: string;
+  onClose: () => void;
+}
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[10px] uppercase tracking-wide text-white/50">{label}</div>
+      <div className="font-mono">{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Live view of the vision pipeline for debugging: queue, latency, success
+ * rate, capture settings and what was last sent and returned.
+ */
+export default function DebugOverlay({ metrics, thumbnail, description, onClose }: DebugOverlayProps) {
+  const queue = metrics?.queue;
+  const capture = metrics?.capture.settings;
+
+  return (
+    <div className="absolute top-20 left-4 w-72 bg-black/80 backdrop-blur-md text-white rounded-2xl p-3 z-20 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <div className="font-medium text-sm">Debug</div>
+        <button
+          onClick={onClose}
+          className="bg-white/20 hover:bg-white/30 rounded-full w-6 h-6 flex items-center justify-center"
+          title="Close"
+        >
+          ×
+        </button>
+      </div>
+
+      {metrics && queue ? (
+        <div className="grid grid-cols-3 gap-2">
+          <Stat label="Queue" value={`${metrics.queueLength}${queue.inFlight ? ' +1' : ''}`} />
+          <Stat label="Latency" value={`${metrics.avgProcessingTime} ms`} />
+          <Stat label="Success" value={`${metrics.successRate}%`} />
+          <Stat label="Processed" value={queue.processed} />
+          <Stat label="Dropped" value={queue.dropped} />
+          <Stat label="Retried" value={queue.retried} />
+          <Stat label="Cached" value={queue.cacheHits} />
+          <Stat label="Cancelled" value={queue.cancelled} />
+          <Stat label="Rate limited" value={queue.rateLimited} />
+          {capture && (
+            <>
+              <Stat label="Size" value={`${capture.width}×${capture.height}`} />
+              <Stat label="Quality" value={capture.quality.toFixed(2)} />
+              <Stat label="Interval" value={`${(capture.intervalMs / 1000).toFixed(1)} s`} />
+            </>
+          )}
+          {queue.backoffUntil > 0 && (
+            <div className="col-span-3 text-amber-300">
+              Backing off for {Math.ceil((queue.backoffUntil - Date.now()) / 1000)} s
+            </div>
+          )}
+          {metrics.budgetState !== 'ok' && (
+            <div className="col-span-3 text-amber-300">Budget {metrics.budgetState}</div>
+          )}
+        </div>
+      ) : (
+        <div className="text-white/50">Vision processor not ready.</div>
+      )}
+
+      {thumbnail ? (
+        <img src={thumbnail} alt="Last captured frame" className="w-full rounded-lg bg-black" />
+      ) : (
+        <div className="text-white/50">No frame captured yet.</div>
+      )}
+
+      <div className="max-h-32 overflow-y-auto whitespace-pre-wrap text-white/90">
+        {description || <span className="text-white/50">No description yet.</span>}
+      </div>
+    </div>
+  );
+}
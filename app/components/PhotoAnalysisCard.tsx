@@ -0,0 +1,36 @@
+'use client';
+import React from 'react';
+
+export interface PhotoAnalysis {
+  /** Object URL of the uploaded photo. */
+  previewUrl: string;
+  name: string;
+  status: 'reading' | 'done' | 'error';
+  text?: string;
+}
+
+interface PhotoAnalysisCardProps {
+  analysis: PhotoAnalysis;
+  onClose: () => void;
+}
+
+export default function PhotoAnalysisCard({ analysis, onClose }: PhotoAnalysisCardProps) {
+  return (
+    <div className="absolute top-20 left-4 right-4 mx-auto max-w-md bg-black/80 backdrop-blur-md text-white rounded-2xl p-4 z-20 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="font-medium truncate">{analysis.name}</div>
+        <button
+          onClick={onClose}
+          className="bg-white/20 hover:bg-white/30 rounded-full w-8 h-8 flex items-center justify-center flex-shrink-0"
+          title="Close"
+        >
+          ×
+        </button>
+      </div>
+      <img src={analysis.previewUrl} alt="" className="w-full max-h-48 object-contain rounded-lg bg-black" />
+      <div className={`text-sm max-h-40 overflow-y-auto whitespace-pre-wrap ${analysis.status === 'error' ? 'text-red-300' : 'text-white/90'}`}>
+        {analysis.status === 'reading' ? 'Analyzing…' : analysis.text}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+import React from 'react';
+import { RedactionMask } from '../redaction';
+import { NormalizedRegion } from '../vision-tools';
+
+interface RedactionOverlayProps {
+  masks: RedactionMask[];
+  /** Regions the detector blurred in the last capture, in frame fractions. */
+  detected: NormalizedRegion[];
+  editing: boolean;
+  /** Maps a frame region to the preview, accounting for crop and mirroring. */
+  toView: (region: NormalizedRegion) => NormalizedRegion | null;
+  onRemove: (id: string) => void;
+}
+
+function toPercent(region: NormalizedRegion): React.CSSProperties {
+  return {
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  };
+}
+
+const HATCH = 'repeating-linear-gradient(45deg, rgba(0,0,0,0.75) 0 8px, rgba(0,0,0,0.55) 8px 16px)';
+
+/**
+ * Shows on the preview what is redacted before frames leave the browser:
+ * masks as hatched boxes, detector hits as dashed outlines.
+ */
+export default function RedactionOverlay({ masks, detected, editing, toView, onRemove }: RedactionOverlayProps) {
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {masks.map(mask => {
+        const view = toView(mask.region);
+        if (!view) return null;
+        return (
+          <div
+            key={mask.id}
+            className="absolute border border-white/40 flex items-start justify-between p-1"
+            style={{ ...toPercent(view), background: HATCH }}
+          >
+            <span className="text-[10px] uppercase tracking-wide text-white/70">Redacted</span>
+            {editing && (
+              <button
+                onClick={() => onRemove(mask.id)}
+                className="pointer-events-auto bg-white/20 hover:bg-white/40 rounded-full w-5 h-5 flex items-center justify-center text-white text-xs"
+                title="Remove mask"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {detected.map((region, index) => {
+        const view = toView(region);
+        if (!view) return null;
+        return (
+          <div
+            key={index}
+            className="absolute border-2 border-dashed border-amber-300/80 rounded"
+            style={toPercent(view)}
+          >
+            <span className="absolute -top-4 left-0 text-[10px] uppercase tracking-wide text-amber-200">Blurred</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+import React, { useRef, useState } from 'react';
+import { NormalizedRegion } from '../vision-tools';
+
+export interface RegionHighlight {
+  /** Fractions of the overlay box, as the user sees it. */
+  region: NormalizedRegion;
+  status: 'reading' | 'done' | 'error';
+  text?: string;
+}
+
+interface RegionSelectorProps {
+  enabled: boolean;
+  highlight: RegionHighlight | null;
+  onSelect: (region: NormalizedRegion) => void;
+  onDismiss: () => void;
+}
+
+// Drags shorter than this count as a tap.
+const TAP_THRESHOLD_PX = 12;
+// A tap selects a square this fraction of the shorter side, centred on it.
+const TAP_REGION_SIZE = 0.3;
+
+function toPercent(region: NormalizedRegion): React.CSSProperties {
+  return {
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  };
+}
+
+/**
+ * Transparent layer over the video that lets the user tap or drag a region
+ * to read at full resolution, and outlines the region with its result.
+ */
+export default function RegionSelector({ enabled, highlight, onSelect, onDismiss }: RegionSelectorProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [dragRegion, setDragRegion] = useState<NormalizedRegion | null>(null);
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const bounds = layerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top, bounds };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!enabled || !layerRef.current) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = pointerPosition(event);
+    dragStart.current = { x, y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const { x, y, bounds } = pointerPosition(event);
+    const start = dragStart.current;
+    if (Math.abs(x - start.x) < TAP_THRESHOLD_PX && Math.abs(y - start.y) < TAP_THRESHOLD_PX) return;
+
+    setDragRegion({
+      x: Math.max(0, Math.min(x, start.x)) / bounds.width,
+      y: Math.max(0, Math.min(y, start.y)) / bounds.height,
+      width: Math.abs(x - start.x) / bounds.width,
+      height: Math.abs(y - start.y) / bounds.height,
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    dragStart.current = null;
+    setDragRegion(null);
+    if (!start) return;
+
+    const { x, y, bounds } = pointerPosition(event);
+    const dragged = Math.abs(x - start.x) >= TAP_THRESHOLD_PX || Math.abs(y - start.y) >= TAP_THRESHOLD_PX;
+
+    if (dragged) {
+      const left = Math.max(0, Math.min(x, start.x));
+      const top = Math.max(0, Math.min(y, start.y));
+      onSelect({
+        x: left / bounds.width,
+        y: top / bounds.height,
+        width: (Math.min(bounds.width, Math.max(x, start.x)) - left) / bounds.width,
+        height: (Math.min(bounds.height, Math.max(y, start.y)) - top) / bounds.height,
+      });
+      return;
+    }
+
+    const size = Math.min(bounds.width, bounds.height) * TAP_REGION_SIZE;
+    const left = Math.min(Math.max(0, x - size / 2), bounds.width - size);
+    const top = Math.min(Math.max(0, y - size / 2), bounds.height - size);
+    onSelect({
+      x: left / bounds.width,
+      y: top / bounds.height,
+      width: size / bounds.width,
+      height: size / bounds.height,
+    });
+  };
+
+  const labelBelow = highlight ? highlight.region.y + highlight.region.height < 0.7 : true;
+
+  return (
+    <div
+      ref={layerRef}
+      className={`absolute inset-0 ${enabled ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragStart.current = null;
+        setDragRegion(null);
+      }}
+    >
+      {dragRegion && (
+        <div className="absolute border-2 border-dashed border-white/80 bg-white/10" style={toPercent(dragRegion)} />
+      )}
+
+      {highlight && !dragRegion && (
+        <>
+          <div
+            className={`absolute border-2 rounded ${
+              highlight.status === 'error' ? 'border-red-400' : 'border-yellow-300'
+            } ${highlight.status === 'reading' ? 'animate-pulse' : ''}`}
+            style={{ ...toPercent(highlight.region), boxShadow: '0 0 0 9999px rgba(0,0,0,0.35)' }}
+          />
+          <div
+            className="absolute left-4 right-4 mx-auto max-w-md bg-black/80 backdrop-blur-md text-white text-sm rounded-xl p-3 flex items-start space-x-2 z-10"
+            style={labelBelow
+              ? { top: `calc(${(highlight.region.y + highlight.region.height) * 100}% + 8px)` }
+              : { bottom: `calc(${(1 - highlight.region.y) * 100}% + 8px)` }}
+            onPointerDown={event => event.stopPropagation()}
+          >
+            <div className="flex-1 max-h-40 overflow-y-auto whitespace-pre-wrap">
+              {highlight.status === 'reading' ? 'Reading…' : highlight.text}
+            </div>
+            <button
+              onClick={onDismiss}
+              className="bg-white/20 hover:bg-white/30 rounded-full w-6 h-6 flex items-center justify-center flex-shrink-0"
+              title="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
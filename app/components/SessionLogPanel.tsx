@@ -0,0 +1,101 @@
+'use client';
+import React, { useEffect, useRef } from 'react';
+import { SessionLogSnapshot } from '../session-log';
+
+interface SessionLogPanelProps {
+  snapshot: SessionLogSnapshot;
+  includeThumbnails: boolean;
+  onToggleThumbnails: (include: boolean) => void;
+  onExportJson: () => void;
+  onExportMarkdown: () => void;
+  onClose: () => void;
+}
+
+export default function SessionLogPanel({
+  snapshot,
+  includeThumbnails,
+  onToggleThumbnails,
+  onExportJson,
+  onExportMarkdown,
+  onClose,
+}: SessionLogPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [snapshot.entries.length]);
+
+  const callEnded = snapshot.endedAt !== null;
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 w-full max-w-sm bg-black/80 backdrop-blur-md text-white flex flex-col z-20">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <div className="font-medium">Session log</div>
+        <button
+          onClick={onClose}
+          className="bg-white/20 hover:bg-white/30 rounded-full w-8 h-8 flex items-center justify-center"
+          title="Close"
+        >
+          ×
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+        {snapshot.entries.length === 0 && (
+          <div className="text-white/50">Nothing recorded yet. Start a call to capture the conversation.</div>
+        )}
+        {snapshot.entries.map((entry, index) => (
+          <div key={index} className="space-y-1">
+            <div className="text-xs text-white/50">
+              {new Date(entry.timestamp).toLocaleTimeString()} ·{' '}
+              {entry.kind === 'transcript' ? (entry.role === 'user' ? 'You' : 'Assistant') : 'Vision'}
+            </div>
+            {entry.kind === 'transcript' ? (
+              <div className={entry.role === 'user' ? 'text-white' : 'text-green-300'}>{entry.text}</div>
+            ) : (
+              <div className="flex space-x-2 text-white/70 italic">
+                {entry.thumbnail && (
+                  <img src={entry.thumbnail} alt="" className="w-16 h-12 rounded object-cover flex-shrink-0" />
+                )}
+                <div>
+                  {entry.question && <div className="not-italic text-white/50">Asked: {entry.question}</div>}
+                  {entry.text}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t border-white/10 space-y-3">
+        <label className="flex items-center space-x-2 text-sm text-white/80">
+          <input
+            type="checkbox"
+            checked={includeThumbnails}
+            onChange={(e) => onToggleThumbnails(e.target.checked)}
+          />
+          <span>Record frame thumbnails</span>
+        </label>
+        <div className="flex space-x-2">
+          <button
+            onClick={onExportJson}
+            disabled={snapshot.entries.length === 0}
+            className="flex-1 bg-white/20 hover:bg-white/30 disabled:opacity-40 rounded-full py-2 text-sm"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onExportMarkdown}
+            disabled={snapshot.entries.length === 0}
+            className="flex-1 bg-white/20 hover:bg-white/30 disabled:opacity-40 rounded-full py-2 text-sm"
+          >
+            Export Markdown
+          </button>
+        </div>
+        {callEnded && snapshot.entries.length > 0 && (
+          <div className="text-xs text-white/50">Call ended. Export the log before starting a new call; it is cleared on the next call.</div>
+        )}
+      </div>
+    </div>
+  );
+}
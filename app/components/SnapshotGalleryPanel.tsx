@@ -0,0 +1,173 @@
+'use client';
+import React, { useState } from 'react';
+import { Snapshot, snapshotImageUrl } from '../snapshot-gallery';
+import { MAX_QUESTION_LENGTH, VISION_MODES, VisionModeId } from '../vision-modes';
+
+interface SnapshotGalleryPanelProps {
+  snapshots: Snapshot[];
+  defaultMode: VisionModeId;
+  /** Whether "Share with call" is available. */
+  canShare: boolean;
+  onAsk: (snapshot: Snapshot, question: string, mode: VisionModeId) => Promise<void>;
+  onShare: (snapshot: Snapshot) => void;
+  onDelete: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+function modeLabel(mode: VisionModeId): string {
+  return VISION_MODES.find(m => m.id === mode)?.label ?? mode;
+}
+
+export default function SnapshotGalleryPanel({
+  snapshots,
+  defaultMode,
+  canShare,
+  onAsk,
+  onShare,
+  onDelete,
+  onClose,
+}: SnapshotGalleryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [mode, setMode] = useState<VisionModeId>(defaultMode);
+  const [asking, setAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+
+  const select = (snapshot: Snapshot | null) => {
+    setSelectedId(snapshot?.id ?? null);
+    setQuestion('');
+    setError(null);
+  };
+
+  const ask = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selected || !question.trim() || asking) return;
+
+    setAsking(true);
+    setError(null);
+    try {
+      await onAsk(selected, question.trim(), mode);
+      setQuestion('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not answer this question.');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 w-full max-w-sm bg-black/80 backdrop-blur-md text-white flex flex-col z-20">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <div className="flex items-center space-x-2">
+          {selected && (
+            <button
+              onClick={() => select(null)}
+              className="bg-white/20 hover:bg-white/30 rounded-full w-8 h-8 flex items-center justify-center"
+              title="Back to gallery"
+            >
+              ‹
+            </button>
+          )}
+          <div className="font-medium">Snapshots</div>
+        </div>
+        <button
+          onClick={onClose}
+          className="bg-white/20 hover:bg-white/30 rounded-full w-8 h-8 flex items-center justify-center"
+          title="Close"
+        >
+          ×
+        </button>
+      </div>
+
+      {!selected ? (
+        <div className="flex-1 overflow-y-auto p-4 text-sm">
+          {snapshots.length === 0 ? (
+            <div className="text-white/50">No snapshots yet. The capture button saves the frame with its description.</div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {snapshots.map(snapshot => (
+                <button key={snapshot.id} onClick={() => select(snapshot)} className="text-left space-y-1">
+                  <img src={snapshotImageUrl(snapshot)} alt="" className="w-full rounded-lg bg-black" />
+                  <div className="text-xs text-white/50">{new Date(snapshot.createdAt).toLocaleString()}</div>
+                  <div className="text-xs line-clamp-2">{snapshot.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          <img src={snapshotImageUrl(selected)} alt="" className="w-full rounded-lg bg-black" />
+          <div className="text-xs text-white/50">
+            {new Date(selected.createdAt).toLocaleString()} · {modeLabel(selected.mode)}
+          </div>
+          <div className="whitespace-pre-wrap">{selected.description}</div>
+
+          {selected.followUps.map((followUp, index) => (
+            <div key={index} className="space-y-1 border-t border-white/10 pt-2">
+              <div className="text-xs text-white/50">
+                {new Date(followUp.askedAt).toLocaleTimeString()} · {modeLabel(followUp.mode)}
+              </div>
+              <div className="font-medium">{followUp.question}</div>
+              <div className="whitespace-pre-wrap text-white/90">{followUp.answer}</div>
+            </div>
+          ))}
+
+          <form onSubmit={ask} className="space-y-2 border-t border-white/10 pt-3">
+            <input
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              maxLength={MAX_QUESTION_LENGTH}
+              placeholder="Ask about this snapshot"
+              className="w-full bg-white/10 rounded-lg px-3 py-2 outline-none placeholder:text-white/40"
+            />
+            <div className="flex items-center justify-between">
+              <select
+                value={mode}
+                onChange={e => setMode(e.target.value as VisionModeId)}
+                className="bg-white/20 text-white text-xs rounded-full px-3 py-1 outline-none"
+                title="Vision mode"
+              >
+                {VISION_MODES.map(m => (
+                  <option key={m.id} value={m.id} className="text-black">
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!question.trim() || asking}
+                className="bg-white/20 hover:bg-white/30 disabled:opacity-50 rounded-full px-3 py-1"
+              >
+                {asking ? 'Asking…' : 'Ask'}
+              </button>
+            </div>
+            {error && <div className="text-red-300">{error}</div>}
+          </form>
+
+          <div className="flex space-x-2 pt-1">
+            <button
+              onClick={() => onShare(selected)}
+              disabled={!canShare}
+              className="flex-1 bg-white/20 hover:bg-white/30 disabled:opacity-50 rounded-full px-3 py-2"
+              title={canShare ? 'Tell the assistant about this snapshot' : 'Start a call to share snapshots'}
+            >
+              Share with call
+            </button>
+            <button
+              onClick={() => {
+                onDelete(selected);
+                select(null);
+              }}
+              className="bg-red-500/60 hover:bg-red-500/80 rounded-full px-3 py-2"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCircleExclamation, faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+
+export interface StatusBanner {
+  /** Stable key; a banner keeps its id while its message changes. */
+  id: string;
+  /** Warnings are recovering on their own; errors need the user. */
+  tone: 'warning' | 'error';
+  message: string;
+  action?: { label: string; onClick: () => void };
+  onDismiss?: () => void;
+}
+
+interface StatusBannersProps {
+  banners: StatusBanner[];
+}
+
+/** Call, camera and other failures, stacked at the top of the preview. */
+export default function StatusBanners({ banners }: StatusBannersProps) {
+  if (banners.length === 0) return null;
+
+  return (
+    <div className="space-y-2" role="status" aria-live="polite">
+      {banners.map(banner => (
+        <div
+          key={banner.id}
+          className={`flex items-center backdrop-blur-sm text-white text-sm rounded-2xl px-3 py-2 space-x-3 ${
+            banner.tone === 'error' ? 'bg-red-600/80' : 'bg-yellow-600/80'
+          }`}
+        >
+          <FontAwesomeIcon
+            icon={banner.tone === 'error' ? faCircleExclamation : faTriangleExclamation}
+            className="flex-shrink-0"
+            style={{ width: 14, height: 14 }}
+          />
+          <span className="flex-1">{banner.message}</span>
+          {banner.action && (
+            <button
+              onClick={banner.action.onClick}
+              className="bg-white/20 hover:bg-white/30 rounded-full px-3 py-1 flex-shrink-0"
+            >
+              {banner.action.label}
+            </button>
+          )}
+          {banner.onDismiss && (
+            <button
+              onClick={banner.onDismiss}
+              className="bg-white/20 hover:bg-white/30 rounded-full w-6 h-6 flex items-center justify-center flex-shrink-0"
+              title="Dismiss"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { VideoSource, VideoSourceKind } from './video-sources';
+import { VoiceTransport, isTransientVoiceError } from './voice-transports';
+
+export interface BackoffOptions {
+  /** Retries before giving up (default 5). */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one (default 1000). */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_BACKOFF: Required<BackoffOptions> = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 16000 };
+
+function backoffDelay(attempt: number, options: Required<BackoffOptions>): number {
+  return Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export type CallStatus = 'idle' | 'connecting' | 'active' | 'reconnecting' | 'failed';
+
+export interface CallState {
+  status: CallStatus;
+  /** Reconnect attempt in progress or scheduled; 0 otherwise. */
+  attempt: number;
+  maxAttempts: number;
+  /** When the next reconnect attempt starts; null while one is running. */
+  retryAt: number | null;
+  /** Why the call dropped or could not start. */
+  error: string | null;
+  /** Provider call id of the current connection. */
+  callId: string | null;
+}
+
+type CallListener = (state: CallState, previous: CallState) => void;
+
+/**
+ * Drives a voice transport through idle → connecting → active. A transient
+ * error moves the call to reconnecting, which starts a new connection after
+ * an exponential backoff. Errors that retrying won't fix, and running out of
+ * attempts, end in failed. Only `start` and `stop` (or `dismiss`) leave
+ * idle and failed.
+ */
+export class CallSupervisor {
+  private state: CallState;
+  private listeners = new Set<CallListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: (() => void)[];
+  private options: Required<BackoffOptions>;
+
+  constructor(private transport: VoiceTransport, options?: BackoffOptions) {
+    this.options = { ...DEFAULT_BACKOFF, ...options };
+    this.state = {
+      status: 'idle',
+      attempt: 0,
+      maxAttempts: this.options.maxAttempts,
+      retryAt: null,
+      error: null,
+      callId: null,
+    };
+
+    this.unsubscribers = [
+      transport.on('call-start', () => {
+        // A connection that completes after the user hung up is closed again.
+        if (this.state.status === 'idle' || this.state.status === 'failed') {
+          this.stopTransport();
+          return;
+        }
+        this.set({ status: 'active', attempt: 0, retryAt: null, error: null });
+      }),
+      transport.on('call-end', () => {
+        // Ends caused by `stop` or by a failure are already accounted for.
+        if (this.state.status === 'active') {
+          this.set({ status: 'idle', callId: null });
+        } else if (this.state.status === 'connecting') {
+          this.set({ status: 'failed', error: 'The call ended before it connected', callId: null });
+        }
+      }),
+      transport.on('error', error => this.fail(error)),
+    ];
+  }
+
+  getState(): CallState {
+    return this.state;
+  }
+
+  async start() {
+    if (this.state.status !== 'idle' && this.state.status !== 'failed') return;
+    this.set({ status: 'connecting', attempt: 0, retryAt: null, error: null, callId: null });
+    await this.connect();
+  }
+
+  /** Hangs up, cancelling any reconnect. */
+  stop() {
+    this.clearRetry();
+    if (this.state.status === 'idle') return;
+    this.set({ status: 'idle', attempt: 0, retryAt: null, error: null, callId: null });
+    this.stopTransport();
+  }
+
+  /** Clears a failure without starting a new call. */
+  dismiss() {
+    if (this.state.status === 'failed') this.set({ status: 'idle', error: null });
+  }
+
+  /** Called with the new and previous state on every change. Returns an unsubscribe function. */
+  subscribe(listener: CallListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  destroy() {
+    this.clearRetry();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.listeners.clear();
+  }
+
+  private async connect() {
+    try {
+      const { callId } = await this.transport.start();
+      if (this.state.status === 'idle' || this.state.status === 'failed') {
+        this.stopTransport();
+        return;
+      }
+      this.set({ callId });
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  private fail(error: unknown) {
+    if (this.state.status === 'idle' || this.state.status === 'failed') return;
+    this.clearRetry();
+
+    const message = errorMessage(error, 'The call failed');
+    const attempt = this.state.attempt + 1;
+    // The state changes first so the transport's own `call-end` is ignored.
+    if (!isTransientVoiceError(error)) {
+      this.set({ status: 'failed', attempt: 0, retryAt: null, error: message, callId: null });
+    } else if (attempt > this.options.maxAttempts) {
+      this.set({
+        status: 'failed',
+        attempt: 0,
+        retryAt: null,
+        error: `${message} (gave up after ${this.options.maxAttempts} reconnect attempts)`,
+        callId: null,
+      });
+    } else {
+      const delay = backoffDelay(attempt, this.options);
+      this.set({ status: 'reconnecting', attempt, retryAt: Date.now() + delay, error: message, callId: null });
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.set({ retryAt: null });
+        this.connect();
+      }, delay);
+    }
+    this.stopTransport();
+  }
+
+  private stopTransport() {
+    try {
+      this.transport.stop();
+    } catch {
+      // Nothing to stop if the call never started.
+    }
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private set(patch: Partial<CallState>) {
+    const previous = this.state;
+    this.state = { ...previous, ...patch };
+    this.listeners.forEach(listener => listener(this.state, previous));
+  }
+}
+
+/**
+ * `lost`: a camera stopped or failed to open and is being re-acquired (or
+ * is waiting for `retry` once attempts run out). `blocked`: permission was
+ * denied. `missing`: there is no camera. `ended`: a screen share or file
+ * stopped or failed; the caller picks the next source.
+ */
+export type CameraStatus = 'idle' | 'acquiring' | 'live' | 'lost' | 'blocked' | 'missing' | 'ended';
+
+export interface CameraState {
+  status: CameraStatus;
+  /** The source being attached or shown. */
+  kind: VideoSourceKind | null;
+  mirrored: boolean;
+  attempt: number;
+  maxAttempts: number;
+  retryAt: number | null;
+  error: string | null;
+}
+
+/**
+ * Keeps a video source attached to the preview `<video>`. A camera whose
+ * track ends (unplugged, taken by another app) or that fails to open is
+ * re-acquired with backoff, and right away when a device is plugged in or
+ * the tab becomes visible again. Retries are held while the tab is hidden.
+ */
+export class CameraSupervisor {
+  private state: CameraState;
+  private listeners = new Set<(state: CameraState) => void>();
+  private createSource: (() => VideoSource) | null = null;
+  private source: VideoSource | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped for every acquisition so late results of older ones are ignored.
+  private generation = 0;
+  private options: Required<BackoffOptions>;
+
+  constructor(private video: HTMLVideoElement, options?: BackoffOptions) {
+    this.options = { ...DEFAULT_BACKOFF, ...options };
+    this.state = {
+      status: 'idle',
+      kind: null,
+      mirrored: false,
+      attempt: 0,
+      maxAttempts: this.options.maxAttempts,
+      retryAt: null,
+      error: null,
+    };
+    navigator.mediaDevices?.addEventListener('devicechange', this.handleWake);
+    document.addEventListener('visibilitychange', this.handleWake);
+  }
+
+  getState(): CameraState {
+    return this.state;
+  }
+
+  /** Switches to the source made by `createSource`, which is called again for each re-acquisition. */
+  use(createSource: () => VideoSource) {
+    this.createSource = createSource;
+    this.set({ attempt: 0, error: null });
+    this.acquire();
+  }
+
+  /** Tries the current source again now, e.g. after the user unblocked the camera. */
+  retry() {
+    if (!this.createSource) return;
+    this.set({ attempt: 0 });
+    this.acquire();
+  }
+
+  subscribe(listener: (state: CameraState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  destroy() {
+    this.generation++;
+    this.clearRetry();
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleWake);
+    document.removeEventListener('visibilitychange', this.handleWake);
+    this.source?.detach(this.video);
+    this.source = null;
+    this.listeners.clear();
+  }
+
+  private async acquire() {
+    if (!this.createSource) return;
+    const generation = ++this.generation;
+    this.clearRetry();
+    this.source?.detach(this.video);
+    this.source = null;
+
+    const source = this.createSource();
+    this.set({ status: 'acquiring', kind: source.kind, retryAt: null });
+    source.onEnded = () => {
+      if (generation === this.generation) this.handleEnded(source);
+    };
+
+    try {
+      await source.attach(this.video);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      source.detach(this.video);
+      this.handleFailure(source, error);
+      return;
+    }
+
+    if (generation !== this.generation) {
+      source.detach(this.video);
+      return;
+    }
+    this.source = source;
+    this.set({ status: 'live', mirrored: source.mirrored, attempt: 0, error: null });
+  }
+
+  private handleEnded(source: VideoSource) {
+    source.detach(this.video);
+    this.source = null;
+    if (source.kind !== 'camera') {
+      this.set({ status: 'ended', error: null });
+      return;
+    }
+    this.scheduleRetry('The camera stopped');
+  }
+
+  private handleFailure(source: VideoSource, error: unknown) {
+    if (source.kind !== 'camera') {
+      this.set({ status: 'ended', error: errorMessage(error, `Could not open ${source.label}`) });
+      return;
+    }
+
+    const name = (error as { name?: unknown } | null)?.name;
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+      this.set({ status: 'blocked', retryAt: null, error: 'Camera access is blocked. Allow it in the browser\'s site settings, then retry.' });
+    } else if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+      this.set({ status: 'missing', retryAt: null, error: 'No camera found. Connect one and it will be picked up automatically.' });
+    } else {
+      this.scheduleRetry(errorMessage(error, 'The camera could not be opened'));
+    }
+  }
+
+  private scheduleRetry(message: string) {
+    const attempt = this.state.attempt + 1;
+    if (attempt > this.options.maxAttempts) {
+      this.set({ status: 'lost', attempt: 0, retryAt: null, error: message });
+      return;
+    }
+    const delay = backoffDelay(attempt, this.options);
+    this.set({ status: 'lost', attempt, retryAt: Date.now() + delay, error: message });
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      // A hidden tab is retried when it becomes visible.
+      if (document.hidden) {
+        this.set({ retryAt: null });
+        return;
+      }
+      this.acquire();
+    }, delay);
+  }
+
+  private handleWake = () => {
+    if (document.hidden) return;
+    if (this.state.status === 'lost' || this.state.status === 'missing') {
+      this.set({ attempt: 0 });
+      this.acquire();
+    }
+  };
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private set(patch: Partial<CameraState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
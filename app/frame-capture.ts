@@ -0,0 +1,171 @@
+import { Redactor } from './redaction';
+import { NormalizedRegion, parseRegion } from './vision-tools';
+
+/** Flips a region horizontally, between mirrored preview and frame coordinates. */
+export function mirrorRegion(region: NormalizedRegion): NormalizedRegion {
+  return { ...region, x: 1 - region.x - region.width };
+}
+
+/**
+ * Crops `region` from the video's native resolution (not the downscaled
+ * capture canvas) and returns base64 JPEG data. `mirrored` flips the
+ * region horizontally when it was picked on a mirrored preview. With a
+ * `redactor`, masks are applied before encoding; null is returned if
+ * redaction fails.
+ */
+export async function captureRegion(
+  video: HTMLVideoElement,
+  region: NormalizedRegion,
+  options?: { mirrored?: boolean; maxSize?: number; quality?: number; redactor?: Redactor }
+): Promise<string | null> {
+  const sourceWidth = video.videoWidth;
+  const sourceHeight = video.videoHeight;
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const x = options?.mirrored ? mirrorRegion(region).x : region.x;
+  const sx = Math.round(x * sourceWidth);
+  const sy = Math.round(region.y * sourceHeight);
+  const sw = Math.max(1, Math.round(region.width * sourceWidth));
+  const sh = Math.max(1, Math.round(region.height * sourceHeight));
+
+  const maxSize = options?.maxSize ?? 1024;
+  const scale = Math.min(1, maxSize / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  if (options?.redactor && !await redactSafely(options.redactor, canvas, {
+    x: sx / sourceWidth,
+    y: sy / sourceHeight,
+    width: sw / sourceWidth,
+    height: sh / sourceHeight,
+  })) {
+    return null;
+  }
+  return canvas.toDataURL('image/jpeg', options?.quality ?? 0.9).split(',')[1];
+}
+
+/**
+ * Inverse of `viewRegionToFrameRegion`: where a frame region appears on the
+ * `<video>` element, in fractions of the element box. May extend past the
+ * box when `object-cover` crops the frame.
+ */
+export function frameRegionToViewRegion(video: HTMLVideoElement, region: NormalizedRegion): NormalizedRegion | null {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!clientWidth || !clientHeight || !videoWidth || !videoHeight) return null;
+
+  const scale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+  const displayedWidth = videoWidth * scale;
+  const displayedHeight = videoHeight * scale;
+  const offsetX = (clientWidth - displayedWidth) / 2;
+  const offsetY = (clientHeight - displayedHeight) / 2;
+
+  return {
+    x: (region.x * displayedWidth + offsetX) / clientWidth,
+    y: (region.y * displayedHeight + offsetY) / clientHeight,
+    width: (region.width * displayedWidth) / clientWidth,
+    height: (region.height * displayedHeight) / clientHeight,
+  };
+}
+
+/**
+ * Converts a region picked on the `<video>` element (fractions of the
+ * element box) into fractions of the video frame as the user sees it,
+ * undoing the `object-cover` crop. Mirroring is left to `captureRegion`,
+ * since `scaleX(-1)` flips the element box and the frame alike.
+ */
+export function viewRegionToFrameRegion(video: HTMLVideoElement, region: NormalizedRegion): NormalizedRegion | null {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!clientWidth || !clientHeight || !videoWidth || !videoHeight) return null;
+
+  const scale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+  const displayedWidth = videoWidth * scale;
+  const displayedHeight = videoHeight * scale;
+  const offsetX = (clientWidth - displayedWidth) / 2;
+  const offsetY = (clientHeight - displayedHeight) / 2;
+
+  const left = Math.max(0, (region.x * clientWidth - offsetX) / displayedWidth);
+  const top = Math.max(0, (region.y * clientHeight - offsetY) / displayedHeight);
+  const right = ((region.x + region.width) * clientWidth - offsetX) / displayedWidth;
+  const bottom = ((region.y + region.height) * clientHeight - offsetY) / displayedHeight;
+  return parseRegion({ x: left, y: top, width: right - left, height: bottom - top });
+}
+
+// A frame that could not be redacted must not leave the browser.
+async function redactSafely(redactor: Redactor, canvas: HTMLCanvasElement, view?: NormalizedRegion): Promise<boolean> {
+  try {
+    await redactor.redact(canvas, view);
+    return true;
+  } catch (error) {
+    console.warn('Redaction failed, frame withheld:', error);
+    return false;
+  }
+}
+
+/**
+ * Captures the current video frame as a JPEG data URL and leaves the
+ * encoded pixels in `canvas` for callers that read it back. With
+ * `settings`, the canvas is resized first and the given quality used;
+ * otherwise the canvas keeps its current size. With a `redactor`, masks
+ * are applied before encoding; null is returned, and `canvas` left alone,
+ * if redaction fails.
+ */
+export async function drawFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  settings?: { width: number; height: number; quality: number },
+  redactor?: Redactor
+): Promise<string | null> {
+  // Redaction awaits the detector, so the frame is drawn and redacted on a
+  // canvas of its own: a capture starting meanwhile can't redraw it with
+  // unredacted pixels before this one is encoded.
+  const work = document.createElement('canvas');
+  work.width = settings?.width ?? canvas.width;
+  work.height = settings?.height ?? canvas.height;
+  const ctx = work.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, work.width, work.height);
+  if (redactor && !await redactSafely(redactor, work)) return null;
+  const dataUrl = work.toDataURL('image/jpeg', settings?.quality);
+
+  if (canvas.width !== work.width || canvas.height !== work.height) {
+    canvas.width = work.width;
+    canvas.height = work.height;
+  }
+  canvas.getContext('2d')?.drawImage(work, 0, 0);
+  return dataUrl;
+}
+
+/**
+ * Draws the current video frame into `canvas` at native resolution, capped
+ * at `maxSize` pixels on the long side, for local detectors that need more
+ * detail than the capture canvas. With a `redactor`, masks are applied
+ * first. Returns false if nothing was drawn or redaction failed.
+ */
+export async function drawDetailFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxSize = 1280,
+  redactor?: Redactor
+): Promise<boolean> {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return false;
+
+  const scale = Math.min(1, maxSize / Math.max(videoWidth, videoHeight));
+  const width = Math.round(videoWidth * scale);
+  const height = Math.round(videoHeight * scale);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return false;
+
+  ctx.drawImage(video, 0, 0, width, height);
+  return !redactor || redactSafely(redactor, canvas);
+}
@@ -1,13 +1,62 @@
 'use client';
 import React, { useRef, useEffect, useState } from 'react';
-import Vapi from '@vapi-ai/web';
-import { SecureVisionProcessor } from './secure-vision';
+import { BudgetState, PerformanceMetrics, SecureVisionProcessor, UsageTotals, VisionBudget } from './secure-vision';
+import { SceneChangeDetector } from './scene-change';
+import { VisualMemory, createMemorySummarizer } from './visual-memory';
+import { formatVisualContext } from './visual-context';
+import { VoiceTransport, VoiceTransportKind, createVoiceTransport } from './voice-transports';
+import { CameraSource, ScreenShareSource, VideoFileSource, VideoSourceKind } from './video-sources';
+import { CallState, CallSupervisor, CameraState, CameraSupervisor } from './connection-state';
+import { SessionLog, SessionLogSnapshot, createThumbnail, downloadText } from './session-log';
+import SessionLogPanel from './components/SessionLogPanel';
+import DebugOverlay from './components/DebugOverlay';
+import SnapshotGalleryPanel from './components/SnapshotGalleryPanel';
+import CodeChips from './components/CodeChips';
+import StatusBanners, { StatusBanner } from './components/StatusBanners';
+import { CodeScanner, DetectedCode, formatCodeFacts } from './code-scanner';
+import { Snapshot, SnapshotGallery, snapshotImageBlob } from './snapshot-gallery';
+import RegionSelector, { RegionHighlight } from './components/RegionSelector';
+import PhotoAnalysisCard, { PhotoAnalysis } from './components/PhotoAnalysisCard';
+import RedactionOverlay from './components/RedactionOverlay';
+import { RedactionMask, RedactionReport, Redactor, createFaceDetector } from './redaction';
+import { captureRegion, drawFrame, frameRegionToViewRegion, mirrorRegion, viewRegionToFrameRegion } from './frame-capture';
+import { NormalizedRegion, ToolCallsMessage, VISION_TOOL_MODES, parseRegion, parseVisionToolCalls, toolQuestion } from './vision-tools';
+import { DEFAULT_VISION_MODE, MAX_QUESTION_LENGTH, VISION_MODES, VisionModeId } from './vision-modes';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faPhone } from '@fortawesome/free-solid-svg-icons';
+import { faBug, faDesktop, faEyeSlash, faFilm, faImage, faImages, faList, faPersonRunning, faPhone } from '@fortawesome/free-solid-svg-icons';
 import { config } from '@fortawesome/fontawesome-svg-core';
 
+function readBudget(): VisionBudget {
+  const maxTokens = Number(process.env.NEXT_PUBLIC_VISION_TOKEN_BUDGET);
+  const maxCostUsd = Number(process.env.NEXT_PUBLIC_VISION_COST_BUDGET_USD);
+  return {
+    maxTokens: maxTokens > 0 ? maxTokens : undefined,
+    maxCostUsd: maxCostUsd > 0 ? maxCostUsd : undefined,
+  };
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
 config.autoAddCss = false;
 
+const VISION_PAUSED_NOTE = 'Vision is paused because the app is in the background. Camera updates resume when it is back in view.';
+
+/**
+ * Sends scene context to the call and logs the same text as it goes out,
+ * so the session log shows exactly what the assistant was told.
+ */
+function sendVisionContext(
+  voice: VoiceTransport,
+  log: SessionLog,
+  content: string,
+  options?: { respond?: boolean; question?: string; thumbnail?: string }
+) {
+  voice.addContext(content, options?.respond ? { respond: true } : undefined);
+  log.addVision(content, { question: options?.question, thumbnail: options?.thumbnail });
+}
+
 const originalConsoleWarn = console.warn;
 console.warn = (...args) => {
   const message = args.join(' ');
@@ -20,23 +69,83 @@ console.warn = (...args) => {
 function GeminiLiveMVP() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [hasCamera, setHasCamera] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const [camera, setCamera] = useState<CameraSupervisor | null>(null);
+  const [cameraState, setCameraState] = useState<CameraState | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [vapi, setVapi] = useState<any>(null);
-  const [callActive, setCallActive] = useState(false);
+  const [voice, setVoice] = useState<VoiceTransport | null>(null);
+  const [call, setCall] = useState<CallSupervisor | null>(null);
+  const [callState, setCallState] = useState<CallState | null>(null);
+  const [tabVisible, setTabVisible] = useState(true);
+  const [notices, setNotices] = useState<{ id: number; message: string }[]>([]);
   const [visionProcessor, setVisionProcessor] = useState<SecureVisionProcessor | null>(null);
   const [lastVisionDescription, setLastVisionDescription] = useState<string>('');
   const [visionProcessing, setVisionProcessing] = useState(false);
   const [isClient, setIsClient] = useState(false);
-  const [visionHistory, setVisionHistory] = useState<string[]>([]);
+  const [sessionSnapshot, setSessionSnapshot] = useState<SessionLogSnapshot>({ startedAt: null, endedAt: null, entries: [] });
+  const [showSessionLog, setShowSessionLog] = useState(false);
+  const [includeThumbnails, setIncludeThumbnails] = useState(false);
   const [cameraFacingMode, setCameraFacingMode] = useState<'user' | 'environment'>('user');
   const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
+  const [sourceKind, setSourceKind] = useState<VideoSourceKind>('camera');
+  const [videoFile, setVideoFile] = useState<File | string | null>(null);
+  const [visionMode, setVisionMode] = useState<VisionModeId>(DEFAULT_VISION_MODE);
+  const [zoomHighlight, setZoomHighlight] = useState<RegionHighlight | null>(null);
+  const [photoAnalysis, setPhotoAnalysis] = useState<PhotoAnalysis | null>(null);
+  const [redactionMasks, setRedactionMasks] = useState<RedactionMask[]>([]);
+  const [redactionReport, setRedactionReport] = useState<RedactionReport | null>(null);
+  const [editingMasks, setEditingMasks] = useState(false);
+  const [faceBlurSupported, setFaceBlurSupported] = useState(false);
+  const [faceBlurEnabled, setFaceBlurEnabled] = useState(false);
+  const [usage, setUsage] = useState<UsageTotals | null>(null);
+  const [budgetState, setBudgetState] = useState<BudgetState>('ok');
+  const [showDebug, setShowDebug] = useState(false);
+  const [debugMetrics, setDebugMetrics] = useState<PerformanceMetrics | null>(null);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [showGallery, setShowGallery] = useState(false);
+  const [motionMode, setMotionMode] = useState(false);
+  // A ref rather than state: the capture loop reads it on every frame and
+  // must not restart when the scanner finishes loading.
+  const codeScannerRef = useRef<CodeScanner | null>(null);
+  const [detectedCodes, setDetectedCodes] = useState<DetectedCode[]>([]);
 
+  const sessionLog = useRef(new SessionLog());
+  // Every frame passes through here before it is encoded and uploaded.
+  const redactor = useRef(new Redactor());
+  const gallery = useRef(new SnapshotGallery());
+  const includeThumbnailsRef = useRef(includeThumbnails);
+  const motionModeRef = useRef(motionMode);
+  const callIdRef = useRef<string | null>(null);
+  // Set after a frame upload fails, so the failure is reported once.
+  const frameUploadFailingRef = useRef(false);
+  const visionPausedRef = useRef(false);
+  const nextNoticeId = useRef(0);
+  const visualMemory = useRef<VisualMemory | null>(null);
+  const toolCallHandlerRef = useRef<((message: ToolCallsMessage) => void) | null>(null);
+  const zoomRequestRef = useRef(0);
   const lastApiCallTime = useRef(0);
   const MIN_API_INTERVAL = 3000;
+  const sceneDetector = useRef(new SceneChangeDetector({
+    sensitivity: 0.5,
+    forceRefreshMs: 30000
+  }));
+
+  const hasVideo = cameraState?.status === 'live';
+  const videoMirrored = cameraState?.mirrored ?? false;
+  const callActive = callState?.status === 'active';
+
+  // Failures that have no state of their own are shown until dismissed.
+  const notify = (message: string) => {
+    const id = ++nextNoticeId.current;
+    setNotices(current => [...current.filter(notice => notice.message !== message), { id, message }]);
+  };
 
   const vapiPublicKey = process.env.NEXT_PUBLIC_VAPI_PUBLIC_KEY;
   const vapiAssistantId = process.env.NEXT_PUBLIC_VAPI_ASSISTANT_ID;
+  // Assistants with a server URL get vision tools answered by /api/vapi/tools,
+  // which needs the latest frames; otherwise tool calls are handled here.
+  const toolWebhookEnabled = voice?.kind === 'vapi' && process.env.NEXT_PUBLIC_VAPI_TOOL_WEBHOOK === 'true';
 
   useEffect(() => {
     setIsClient(true);
@@ -44,139 +153,293 @@ function GeminiLiveMVP() {
 
   useEffect(() => {
     if (!isClient) return;
-    
-    async function setupCamera() {
-      try {
-        // Enumerate available cameras
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const cameras = devices.filter(device => device.kind === 'videoinput');
-        setAvailableCameras(cameras);
-
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: cameraFacingMode } 
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          setHasCamera(true);
-        }
-      } catch (err) {
-        setHasCamera(false);
-      }
+
+    // ?video=<url> plays a clip instead of the camera, for reproducible runs.
+    const videoUrl = new URLSearchParams(window.location.search).get('video');
+    if (videoUrl) {
+      setVideoFile(videoUrl);
+      setSourceKind('file');
     }
-    setupCamera();
+  }, [isClient]);
+
+  useEffect(() => {
+    if (!isClient || !videoRef.current) return;
+
+    const supervisor = new CameraSupervisor(videoRef.current);
+    const unsubscribe = supervisor.subscribe(setCameraState);
+    setCamera(supervisor);
     return () => {
-      if (videoRef.current && videoRef.current.srcObject) {
-        (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
-      }
+      unsubscribe();
+      supervisor.destroy();
+      setCamera(null);
+      setCameraState(null);
     };
-  }, [isClient, cameraFacingMode]);
+  }, [isClient]);
 
   useEffect(() => {
-    if (!isClient || !hasCamera || !callActive || !visionProcessor || !vapi) return;
+    if (!camera) return;
+
+    zoomRequestRef.current++;
+    setZoomHighlight(null);
+    camera.use(() => {
+      if (sourceKind === 'screen') return new ScreenShareSource();
+      if (sourceKind === 'file' && videoFile) return new VideoFileSource(videoFile);
+      return new CameraSource(cameraFacingMode);
+    });
+  }, [camera, sourceKind, videoFile, cameraFacingMode]);
+
+  // A stopped screen share or unreadable file falls back to the camera.
+  useEffect(() => {
+    if (cameraState?.status !== 'ended') return;
+    if (cameraState.error) notify(cameraState.error);
+    setSourceKind('camera');
+  }, [cameraState]);
+
+  // Labels are only readable once the camera is allowed, and the list
+  // changes as cameras are plugged in and out.
+  useEffect(() => {
+    if (!isClient || !navigator.mediaDevices) return;
+
+    const refresh = () => {
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => setAvailableCameras(devices.filter(device => device.kind === 'videoinput')))
+        .catch(() => {});
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isClient, hasVideo]);
+
+  useEffect(() => {
+    if (!isClient) return;
+
+    const update = () => setTabVisible(!document.hidden);
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, [isClient]);
+
+  // Nothing is captured while the tab is hidden, so frames already queued
+  // would describe a scene the user has left.
+  useEffect(() => {
+    if (!tabVisible) visionProcessor?.dropBackgroundFrames();
+  }, [tabVisible, visionProcessor]);
+
+  useEffect(() => {
+    if (!callActive || !voice) {
+      visionPausedRef.current = false;
+      return;
+    }
+    if (!tabVisible) {
+      visionPausedRef.current = true;
+      sendVisionContext(voice, sessionLog.current, VISION_PAUSED_NOTE);
+    } else if (visionPausedRef.current) {
+      visionPausedRef.current = false;
+      sendVisionContext(voice, sessionLog.current, 'Vision has resumed; the camera is in view again.');
+    }
+  }, [tabVisible, callActive, voice]);
+
+  useEffect(() => {
+    if (!isClient || !hasVideo || !tabVisible || !callActive || !visionProcessor || !voice) return;
     
+    sceneDetector.current.reset();
+
+    const memory = visualMemory.current;
+    const sendContext = (content: string, options?: { question?: string; thumbnail?: string }) =>
+      sendVisionContext(voice, sessionLog.current, content, options);
+
+    // Only what changed since the last description reaches the assistant;
+    // the rolling summary is refreshed once per memory window.
+    const unsubscribe = visionProcessor.subscribe((description, scene, update) => {
+      // Actions read from a burst go to the assistant as they are; the
+      // memory only tracks the scene itself.
+      const content = update?.burst
+        ? (update.partial ? null : `What just happened: ${description}`)
+        : memory?.observe(description, scene, update);
+      if (!content) return;
+
+      sendContext(content, {
+        question: update?.question,
+        thumbnail: !update?.partial && includeThumbnailsRef.current && canvasRef.current
+          ? createThumbnail(canvasRef.current)
+          : undefined
+      });
+    });
+
+    // Size, JPEG quality and cadence come from the processor's adaptive
+    // controller, re-read before every capture.
+    const capture = visionProcessor.getCaptureController();
+    let captureTimer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
     const continuousVisionProcessing = async () => {
+      captureTimer = setTimeout(continuousVisionProcessing, capture.getSettings().intervalMs);
+
       if (videoRef.current && canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(videoRef.current, 0, 0, 320, 240);
-          const dataUrl = canvasRef.current.toDataURL('image/jpeg');
+        const dataUrl = await drawFrame(videoRef.current, canvasRef.current, capture.getSettings(), redactor.current);
+        if (dataUrl && !stopped) {
           setCapturedImage(dataUrl);
           
           const base64Data = dataUrl.split(',')[1];
-          
-          try {
-            setVisionProcessing(true);
-            lastApiCallTime.current = Date.now();
-            const description = await visionProcessor.forceAnalysis(base64Data, '');
-            
-            if (description) {
-              setLastVisionDescription(description);
-              
-              vapi.send({
-                type: 'add-message',
-                message: {
-                  role: 'system',
-                  content: `Visual context update: ${description}`,
-                },
-                triggerResponseEnabled: false,
-              });
-              
-              setVisionHistory(prev => {
-                const newEntry = `${new Date().toLocaleTimeString()}: ${description}`;
-                const newHistory = [...prev, newEntry];
-                return newHistory.slice(-5);
-              });
-            }
-          } catch (error) {
-          } finally {
-            setVisionProcessing(false);
+          visionProcessor.recordFrame(base64Data);
+
+          // Codes are decoded locally on a sharper frame; their exact values
+          // reach the assistant without a vision request.
+          codeScannerRef.current?.scan(videoRef.current, redactor.current).then(codes => {
+            if (codes.length === 0 || stopped) return;
+            sendContext(formatCodeFacts(codes));
+          }).catch(() => {});
+
+          const { changed } = sceneDetector.current.evaluate(canvasRef.current);
+          capture.recordSceneCheck(changed);
+          if (!changed) return;
+
+          visionProcessor.addFrame(base64Data, undefined, 'medium');
+          // A changing scene in motion mode also gets a read of the action.
+          if (motionModeRef.current) visionProcessor.addBurst();
+
+          if (toolWebhookEnabled && callIdRef.current) {
+            visionProcessor.getSessionClient().fetch('/api/vapi/frame', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ callId: callIdRef.current, imageBase64: base64Data, mirrored: videoMirrored }),
+            }).then(async response => {
+              if (response.ok) {
+                frameUploadFailingRef.current = false;
+                return;
+              }
+              const errorData = await response.json().catch(() => ({}));
+              throw new Error(errorData.error || `Frame upload failed: ${response.status}`);
+            }).catch(error => {
+              // The webhook answers from the last uploaded frame, so the
+              // assistant's view is stale until uploads work again.
+              if (stopped || frameUploadFailingRef.current) return;
+              frameUploadFailingRef.current = true;
+              notify(`The assistant can't see new frames: ${error instanceof Error ? error.message : 'upload failed'}`);
+            });
           }
         }
       }
     };
     
-    const initialTimer = setTimeout(continuousVisionProcessing, 1000);
-    const interval = setInterval(continuousVisionProcessing, 3000);
+    captureTimer = setTimeout(continuousVisionProcessing, 1000);
+    const memoryInterval = setInterval(() => {
+      const summary = memory?.takeRollingSummary();
+      if (summary) sendContext(summary);
+      memory?.compact();
+    }, 2 * 60 * 1000);
     
     return () => {
-      clearTimeout(initialTimer);
-      clearInterval(interval);
+      stopped = true;
+      clearTimeout(captureTimer);
+      clearInterval(memoryInterval);
+      unsubscribe();
     };
-  }, [isClient, hasCamera, callActive, visionProcessor, vapi]);
+  }, [isClient, hasVideo, tabVisible, callActive, visionProcessor, voice, toolWebhookEnabled, videoMirrored]);
 
+  // Motion mode fills the burst buffer with small frames twice a second, on
+  // a canvas of its own so it never races the main capture.
   useEffect(() => {
-    if (!isClient || !hasCamera || callActive) return;
+    if (!isClient || !hasVideo || !tabVisible || !motionMode || !visionProcessor) return;
+
+    const canvas = document.createElement('canvas');
+    let busy = false;
+    const interval = setInterval(async () => {
+      if (busy || !videoRef.current) return;
+      busy = true;
+      try {
+        const dataUrl = await drawFrame(videoRef.current, canvas, { width: 320, height: 240, quality: 0.6 }, redactor.current);
+        if (dataUrl) visionProcessor.recordFrame(dataUrl.split(',')[1]);
+      } finally {
+        busy = false;
+      }
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isClient, hasVideo, tabVisible, motionMode, visionProcessor]);
+
+  useEffect(() => {
+    if (!isClient || !hasVideo || !tabVisible || callActive) return;
     
-    const interval = setInterval(() => {
+    const interval = setInterval(async () => {
       if (videoRef.current && canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(videoRef.current, 0, 0, 320, 240);
-          const dataUrl = canvasRef.current.toDataURL('image/jpeg');
+        const dataUrl = await drawFrame(videoRef.current, canvasRef.current, undefined, redactor.current);
+        if (dataUrl) {
           setCapturedImage(dataUrl);
         }
       }
     }, 1000);
     
     return () => clearInterval(interval);
-  }, [isClient, hasCamera, callActive]);
+  }, [isClient, hasVideo, tabVisible, callActive]);
 
+  // ?voice=local|web-speech|vapi overrides NEXT_PUBLIC_VOICE_TRANSPORT.
   useEffect(() => {
-    if (!isClient || !vapiPublicKey) return;
-    
+    if (!isClient || !visionProcessor) return;
+
+    const preferred = (new URLSearchParams(window.location.search).get('voice')
+      ?? process.env.NEXT_PUBLIC_VOICE_TRANSPORT) as VoiceTransportKind | undefined;
+    let transport: VoiceTransport | null = null;
     try {
-      const v = new Vapi(vapiPublicKey);
-      
-      v.on('message', (message: any) => {
-      });
-      
-      v.on('call-start', () => {
-        setCallActive(true);
+      transport = createVoiceTransport({
+        preferred,
+        vapiPublicKey,
+        vapiAssistantId,
+        client: visionProcessor.getSessionClient(),
+        onUsage: report => visionProcessor.recordUsage(report),
       });
-      
-      v.on('call-end', () => {
-        setCallActive(false);
-      });
-      
-      v.on('error', (error) => {
-        if (!error.message?.includes('audio processor')) {
-          setCallActive(false);
-        }
-      });
-      
-      setVapi(v);
     } catch (error) {
+      notify(`Voice is unavailable: ${error instanceof Error ? error.message : 'the transport could not be created'}`);
     }
-    
-    return () => {
-      if (vapi) {
-        try {
-          vapi.stop();
-        } catch (error) {
+    if (!transport) return;
+
+    transport.on('tool-calls', message => toolCallHandlerRef.current?.(message));
+    transport.on('transcript', (role, text) => sessionLog.current.addTranscript(role, text));
+
+    // A reconnect continues the same session log and visual memory; only a
+    // call the user starts (or one that ends for good) begins or closes them.
+    // The assistant on the new call has heard none of it, though.
+    const supervisor = new CallSupervisor(transport);
+    const unsubscribe = supervisor.subscribe((state, previous) => {
+      setCallState(state);
+      callIdRef.current = state.callId;
+
+      // Each call gets its own budget.
+      if (state.status === 'active' && previous.status === 'connecting') {
+        visionProcessor.resetUsage();
+        visualMemory.current?.reset();
+        sessionLog.current.start();
+      }
+      if (state.status === 'active' && previous.status === 'reconnecting') {
+        const description = visionProcessor.getCurrentDescription();
+        const log = sessionLog.current;
+        if (description) {
+          sendVisionContext(transport, log, formatVisualContext(description, visionProcessor.getCurrentScene() ?? undefined));
         }
+        const summary = visualMemory.current?.getRollingSummary();
+        if (summary) sendVisionContext(transport, log, summary);
+        if (visionPausedRef.current) sendVisionContext(transport, log, VISION_PAUSED_NOTE);
       }
+      const log = sessionLog.current.getSnapshot();
+      if ((state.status === 'idle' || state.status === 'failed') && log.startedAt !== null && log.endedAt === null) {
+        sessionLog.current.end();
+        if (log.entries.length > 0) {
+          setShowSessionLog(true);
+        }
+      }
+    });
+
+    setVoice(transport);
+    setCall(supervisor);
+    setCallState(supervisor.getState());
+    return () => {
+      unsubscribe();
+      supervisor.destroy();
+      transport.destroy();
+      setVoice(null);
+      setCall(null);
+      setCallState(null);
     };
-  }, [isClient, vapiPublicKey]);
+  }, [isClient, visionProcessor, vapiPublicKey, vapiAssistantId]);
 
   useEffect(() => {
     if (!isClient) return;
@@ -188,75 +451,366 @@ function GeminiLiveMVP() {
         },
         onProcessingStateChange: (isProcessing) => {
           setVisionProcessing(isProcessing);
+        },
+        onUsageChange: (totals, state) => {
+          setUsage(totals);
+          setBudgetState(state);
+        },
+        onRequestError: (error) => {
+          notify(error.code === 'budget_exhausted'
+            ? 'This session has used all of its vision requests, so the assistant can no longer see the camera.'
+            : `Vision request failed: ${error.message}`);
         }
+      }, { structured: true, streaming: true, delta: 'description', budget: readBudget() });
+      visualMemory.current = new VisualMemory({
+        summarize: createMemorySummarizer(processor.getSessionClient(), report => processor.recordUsage(report))
       });
       setVisionProcessor(processor);
+      return () => processor.destroy();
     } catch (error) {
+      notify(`Vision is unavailable: ${error instanceof Error ? error.message : 'it could not be started'}`);
     }
   }, [isClient]);
 
+  useEffect(() => {
+    return sessionLog.current.subscribe(setSessionSnapshot);
+  }, []);
+
+  useEffect(() => {
+    if (!isClient || !SnapshotGallery.isSupported()) return;
+    gallery.current.list().then(setSnapshots).catch(() => {});
+    return gallery.current.subscribe(setSnapshots);
+  }, [isClient]);
+
+  useEffect(() => {
+    if (!showDebug || !visionProcessor) return;
+    const refresh = () => setDebugMetrics(visionProcessor.getPerformanceMetrics());
+    refresh();
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, [showDebug, visionProcessor]);
+
+  useEffect(() => {
+    if (budgetState !== 'paused' || !callActive || !voice) return;
+    voice.say("I've used up the vision budget for this session, so I can't see the camera any more. I can still talk with you.");
+  }, [budgetState, callActive, voice]);
+
+  useEffect(() => {
+    if (!isClient) return;
+    setRedactionMasks(redactor.current.getMasks());
+    setFaceBlurSupported(createFaceDetector() !== null);
+    const unsubscribeMasks = redactor.current.subscribeMasks(setRedactionMasks);
+    const unsubscribeReports = redactor.current.subscribe(setRedactionReport);
+    return () => {
+      unsubscribeMasks();
+      unsubscribeReports();
+    };
+  }, [isClient]);
+
+  useEffect(() => {
+    if (!isClient) return;
+    let unsubscribe = () => {};
+    let cancelled = false;
+    CodeScanner.create().then(scanner => {
+      if (cancelled) return;
+      unsubscribe = scanner.subscribe(setDetectedCodes);
+      codeScannerRef.current = scanner;
+    }).catch(error => console.warn('Code scanning unavailable:', error));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      codeScannerRef.current = null;
+    };
+  }, [isClient]);
+
+  useEffect(() => {
+    redactor.current.setDetector(faceBlurEnabled ? createFaceDetector() : null);
+    setRedactionReport(null);
+  }, [faceBlurEnabled]);
+
+  useEffect(() => {
+    includeThumbnailsRef.current = includeThumbnails;
+  }, [includeThumbnails]);
+
+  useEffect(() => {
+    motionModeRef.current = motionMode;
+  }, [motionMode]);
+
+  useEffect(() => {
+    visionProcessor?.setMode(visionMode);
+  }, [visionProcessor, visionMode]);
+
+  // The supervisor reports failures through `callState`.
   const handleStartCall = () => {
-    if (vapi && vapiAssistantId) {
-      try {
-        vapi.start(vapiAssistantId);
-      } catch (error) {
-      }
-    }
+    call?.start();
   };
-  
+
   const handleStopCall = () => {
-    if (vapi) {
-      try {
-        vapi.stop();
-      } catch (error) {
-      }
-    }
+    call?.stop();
   };
 
-  const analyzeCurrentFrame = async (userPrompt?: string) => {
+  const analyzeCurrentFrame = async (question?: string) => {
     if (!visionProcessor || !videoRef.current || !canvasRef.current) return;
     
     const now = Date.now();
     if (now - lastApiCallTime.current < MIN_API_INTERVAL) {
       const waitTime = Math.ceil((MIN_API_INTERVAL - (now - lastApiCallTime.current)) / 1000);
+      notify(`Please wait ${waitTime} second${waitTime === 1 ? '' : 's'} before analyzing again.`);
       return;
     }
     
     try {
       setVisionProcessing(true);
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(videoRef.current, 0, 0, 320, 240);
-        const dataUrl = canvasRef.current.toDataURL('image/jpeg');
+      const dataUrl = await drawFrame(
+        videoRef.current,
+        canvasRef.current,
+        visionProcessor.getCaptureController().getSettings(),
+        redactor.current
+      );
+      if (dataUrl) {
         const base64Data = dataUrl.split(',')[1];
         
         lastApiCallTime.current = now;
-        const description = await visionProcessor.forceAnalysis(base64Data, userPrompt || '');
-        
-        if (description && callActive) {
+        const description = await visionProcessor.forceAnalysis(base64Data, question?.slice(0, MAX_QUESTION_LENGTH));
+        if (description === null) {
+          notify('Could not analyze the frame. Try again.');
+          return;
+        }
+
+        if (callActive) {
           setLastVisionDescription(description);
-          setVisionHistory(prev => {
-            const contextEntry = userPrompt 
-              ? `${new Date().toLocaleTimeString()}: ${description} (User asked: "${userPrompt}")`
-              : `${new Date().toLocaleTimeString()}: ${description}`;
-            const newHistory = [...prev, contextEntry];
-            return newHistory.slice(-5);
-          });
+        }
+        // Every capture is bookmarked with what was seen.
+        if (description && SnapshotGallery.isSupported()) {
+          gallery.current.add({ imageBase64: base64Data, description, mode: visionMode }).catch(() => {});
         }
       }
     } catch (error) {
+      notify(`Could not analyze the frame: ${error instanceof Error ? error.message : 'unknown error'}`);
     } finally {
       setVisionProcessing(false);
     }
   };
 
+  const analyzeMotion = async () => {
+    if (!visionProcessor) return;
+    const description = await visionProcessor.analyzeBurst();
+    if (description === null) {
+      notify('Could not describe what just happened. Keep the camera on the action and try again.');
+      return;
+    }
+    setLastVisionDescription(description);
+  };
+
+  const handleToolCalls = async (message: ToolCallsMessage) => {
+    if (toolWebhookEnabled || !voice || !visionProcessor || !videoRef.current || !canvasRef.current) return;
+
+    for (const call of parseVisionToolCalls(message)) {
+      const question = toolQuestion(call)?.slice(0, MAX_QUESTION_LENGTH);
+      let result: string;
+
+      const region = call.name === 'zoom_on' ? parseRegion(call.args.region) : null;
+      const crop = region && await captureRegion(videoRef.current, region, {
+        mirrored: videoMirrored,
+        redactor: redactor.current
+      });
+      const dataUrl = crop ? null : await drawFrame(
+        videoRef.current,
+        canvasRef.current,
+        visionProcessor.getCaptureController().getSettings(),
+        redactor.current
+      );
+      const imageBase64 = crop ?? dataUrl?.split(',')[1];
+      if (!imageBase64) {
+        voice.sendToolResult(call, 'No camera frame is available right now.');
+        continue;
+      }
+
+      // Tool reads go to the assistant only as the tool result, outside the
+      // background description, so they never also arrive as context.
+      try {
+        const { description } = await visionProcessor.describeImageData(imageBase64, VISION_TOOL_MODES[call.name], question);
+        result = description || (crop ? 'Nothing could be read in that region.' : 'Nothing could be seen right now.');
+      } catch {
+        result = crop
+          ? 'That region could not be read right now.'
+          : 'The camera could not be read right now. Do not rely on earlier descriptions for this.';
+      }
+
+      voice.sendToolResult(call, result);
+      sessionLog.current.addVision(result, { question });
+    }
+  };
+  toolCallHandlerRef.current = handleToolCalls;
+
+  // Reads a tapped or dragged region of the preview from the full-resolution
+  // frame, rather than the downscaled capture.
+  const handleRegionSelect = async (region: NormalizedRegion) => {
+    if (!visionProcessor || !videoRef.current) return;
+
+    const frameRegion = viewRegionToFrameRegion(videoRef.current, region);
+    const base64Data = frameRegion && await captureRegion(videoRef.current, frameRegion, {
+      mirrored: videoMirrored,
+      redactor: redactor.current
+    });
+    if (!base64Data) return;
+
+    const requestId = ++zoomRequestRef.current;
+    setZoomHighlight({ region, status: 'reading' });
+
+    // Read outside the background description, like a photo upload: a
+    // close-up must not replace the scene or reach the call twice.
+    const description = await visionProcessor.describeImageData(base64Data, VISION_TOOL_MODES.zoom_on)
+      .then(result => result.description, () => null);
+    if (requestId !== zoomRequestRef.current) return;
+
+    setZoomHighlight(description
+      ? { region, status: 'done', text: description }
+      : { region, status: 'error', text: 'Could not read this region. Try again.' });
+
+    if (description && callActive && voice) {
+      sendVisionContext(
+        voice,
+        sessionLog.current,
+        `The user pointed at part of the view. Close-up reading: ${description}`,
+        { respond: true }
+      );
+    }
+  };
+
+  // Masks are stored in unmirrored frame coordinates, so they cover the same
+  // area whether or not the preview is flipped.
+  const addRedactionMask = (region: NormalizedRegion) => {
+    if (!videoRef.current) return;
+    const frameRegion = viewRegionToFrameRegion(videoRef.current, region);
+    if (frameRegion) {
+      redactor.current.addMask(videoMirrored ? mirrorRegion(frameRegion) : frameRegion);
+    }
+  };
+
+  const frameToView = (region: NormalizedRegion) =>
+    videoRef.current
+      ? frameRegionToViewRegion(videoRef.current, videoMirrored ? mirrorRegion(region) : region)
+      : null;
+
+  const dismissZoom = () => {
+    zoomRequestRef.current++;
+    setZoomHighlight(null);
+  };
+
+  // Connecting and reconnecting count as in a call, so the button hangs up.
+  const callInProgress = callState !== null && callState.status !== 'idle' && callState.status !== 'failed';
+
+  const banners: StatusBanner[] = [];
+  if (callState?.status === 'reconnecting') {
+    banners.push({
+      id: 'call',
+      tone: 'warning',
+      message: `Call dropped (${callState.error}). Reconnecting, attempt ${callState.attempt} of ${callState.maxAttempts}...`,
+    });
+  } else if (callState?.status === 'failed') {
+    banners.push({
+      id: 'call',
+      tone: 'error',
+      message: callState.error ?? 'The call failed.',
+      action: { label: 'Retry', onClick: handleStartCall },
+      onDismiss: () => call?.dismiss(),
+    });
+  }
+  if (cameraState?.status === 'lost') {
+    banners.push(cameraState.retryAt !== null || !tabVisible
+      ? { id: 'camera', tone: 'warning', message: `${cameraState.error} — reconnecting to the camera...` }
+      : { id: 'camera', tone: 'error', message: cameraState.error ?? 'The camera stopped', action: { label: 'Retry', onClick: () => camera?.retry() } });
+  } else if (cameraState?.status === 'blocked' || cameraState?.status === 'missing') {
+    banners.push({
+      id: 'camera',
+      tone: cameraState.status === 'blocked' ? 'error' : 'warning',
+      message: cameraState.error ?? 'The camera is unavailable.',
+      action: { label: 'Retry', onClick: () => camera?.retry() },
+    });
+  }
+  notices.forEach(notice => banners.push({
+    id: `notice-${notice.id}`,
+    tone: 'error',
+    message: notice.message,
+    onDismiss: () => setNotices(current => current.filter(other => other.id !== notice.id)),
+  }));
+
   const switchCamera = async () => {
+    if (sourceKind !== 'camera') {
+      setSourceKind('camera');
+      return;
+    }
     if (availableCameras.length < 2) return;
     
     const newFacingMode = cameraFacingMode === 'user' ? 'environment' : 'user';
     setCameraFacingMode(newFacingMode);
   };
 
+  const exportSessionLog = (format: 'json' | 'markdown') => {
+    const stamp = new Date(sessionSnapshot.startedAt ?? Date.now()).toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadText(`session-${stamp}.json`, sessionLog.current.toJSON(), 'application/json');
+    } else {
+      downloadText(`session-${stamp}.md`, sessionLog.current.toMarkdown(), 'text/markdown');
+    }
+  };
+
+  const toggleScreenShare = () => {
+    setSourceKind(sourceKind === 'screen' ? 'camera' : 'screen');
+  };
+
+  const handlePhotoFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !visionProcessor) return;
+
+    if (photoAnalysis) URL.revokeObjectURL(photoAnalysis.previewUrl);
+    const previewUrl = URL.createObjectURL(file);
+    setPhotoAnalysis({ previewUrl, name: file.name, status: 'reading' });
+
+    let result: Pick<PhotoAnalysis, 'status' | 'text'>;
+    try {
+      const { description } = await visionProcessor.describeImageFile(file, visionMode);
+      result = { status: 'done', text: description };
+    } catch (error) {
+      result = { status: 'error', text: error instanceof Error ? error.message : 'Could not analyze this photo.' };
+    }
+    setPhotoAnalysis(current => current?.previewUrl === previewUrl ? { ...current, ...result } : current);
+  };
+
+  const closePhotoAnalysis = () => {
+    if (photoAnalysis) URL.revokeObjectURL(photoAnalysis.previewUrl);
+    setPhotoAnalysis(null);
+  };
+
+  // Past snapshots bypass the frame queue so they never replace the live
+  // description.
+  const askSnapshot = async (snapshot: Snapshot, question: string, mode: VisionModeId) => {
+    if (!visionProcessor) throw new Error('Vision is not ready yet.');
+    const { description } = await visionProcessor.describeImageFile(snapshotImageBlob(snapshot), mode, question);
+    await gallery.current.addFollowUp(snapshot.id, { question, mode, answer: description, askedAt: Date.now() });
+  };
+
+  const shareSnapshot = (snapshot: Snapshot) => {
+    if (!voice || !callActive) return;
+    const followUps = snapshot.followUps.map(f => ` Asked "${f.question}": ${f.answer}`).join('');
+    sendVisionContext(
+      voice,
+      sessionLog.current,
+      `The user shared a snapshot taken at ${new Date(snapshot.createdAt).toLocaleTimeString()}: ${snapshot.description}${followUps}`,
+      { respond: true }
+    );
+  };
+
+  const handleVideoFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setVideoFile(file);
+    setSourceKind('file');
+  };
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       <div className="relative w-full h-full flex items-center justify-center">
@@ -268,9 +822,25 @@ function GeminiLiveMVP() {
               muted 
               playsInline
               className="w-full h-full object-cover"
-              style={{ transform: 'scaleX(-1)' }}
+              style={{ transform: videoMirrored ? 'scaleX(-1)' : undefined }}
             />
             <canvas ref={canvasRef} width={320} height={240} className="hidden" />
+            <RegionSelector
+              enabled={hasVideo && (editingMasks || !!visionProcessor)}
+              highlight={editingMasks ? null : zoomHighlight}
+              onSelect={editingMasks ? addRedactionMask : handleRegionSelect}
+              onDismiss={dismissZoom}
+            />
+            {/* Above the selector so mask remove buttons stay clickable. */}
+            {hasVideo && (
+              <RedactionOverlay
+                masks={redactionMasks}
+                detected={redactionReport?.detected ?? []}
+                editing={editingMasks}
+                toView={frameToView}
+                onRemove={id => redactor.current.removeMask(id)}
+              />
+            )}
           </>
         ) : (
           <div className="w-full h-full bg-black flex items-center justify-center">
@@ -293,6 +863,94 @@ function GeminiLiveMVP() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                 </svg>
               </button>
+              <button
+                onClick={toggleScreenShare}
+                className={`${sourceKind === 'screen' ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title={sourceKind === 'screen' ? 'Stop sharing screen' : 'Share screen or window'}
+              >
+                <FontAwesomeIcon icon={faDesktop} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={`${sourceKind === 'file' ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title={sourceKind === 'file' && videoFile ? `Playing ${typeof videoFile === 'string' ? videoFile : videoFile.name}` : 'Play a video file'}
+              >
+                <FontAwesomeIcon icon={faFilm} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => photoInputRef.current?.click()}
+                disabled={!visionProcessor}
+                className="bg-white/20 hover:bg-white/30 rounded-full p-2 transition-all duration-200"
+                title="Analyze a photo"
+              >
+                <FontAwesomeIcon icon={faImage} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => setEditingMasks(!editingMasks)}
+                className={`${editingMasks ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title="Privacy masks"
+              >
+                <FontAwesomeIcon icon={faEyeSlash} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => setShowSessionLog(!showSessionLog)}
+                className={`${showSessionLog ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title="Session log"
+              >
+                <FontAwesomeIcon icon={faList} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => setShowGallery(!showGallery)}
+                className={`${showGallery ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title={`Snapshots (${snapshots.length})`}
+              >
+                <FontAwesomeIcon icon={faImages} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <button
+                onClick={() => setShowDebug(!showDebug)}
+                className={`${showDebug ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} rounded-full p-2 transition-all duration-200`}
+                title="Debug overlay"
+              >
+                <FontAwesomeIcon icon={faBug} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="video/*"
+                className="hidden"
+                onChange={handleVideoFileChange}
+              />
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                className="hidden"
+                onChange={handlePhotoFileChange}
+              />
+              {(redactionMasks.length > 0 || faceBlurEnabled) && (
+                <div
+                  className="flex items-center space-x-1 text-white/80 text-sm"
+                  title="Redacted in the browser before frames are sent"
+                >
+                  <FontAwesomeIcon icon={faEyeSlash} style={{ width: 14, height: 14 }} />
+                  <span>
+                    {redactionReport?.masked ?? redactionMasks.length} masked
+                    {faceBlurEnabled && ` · ${redactionReport?.detected.length ?? 0} blurred`}
+                  </span>
+                </div>
+              )}
+              {usage && usage.requests > 0 && (
+                <div
+                  className={`text-sm ${budgetState === 'paused' ? 'text-red-300' : budgetState === 'throttled' ? 'text-amber-300' : 'text-white/80'}`}
+                  title={budgetState === 'paused'
+                    ? 'Vision budget used up, vision paused'
+                    : budgetState === 'throttled'
+                      ? 'Vision budget nearly used, capturing less often'
+                      : `${usage.requests} vision requests this session`}
+                >
+                  {formatTokens(usage.totalTokens)} tok · ${usage.costUsd.toFixed(4)}
+                </div>
+              )}
               {visionProcessing && (
                 <div className="flex items-center space-x-1 text-white/80 text-sm">
                   <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
@@ -305,26 +963,50 @@ function GeminiLiveMVP() {
                   <span>Live</span>
                 </div>
               )}
+              {(callState?.status === 'connecting' || callState?.status === 'reconnecting') && (
+                <div className="flex items-center space-x-1 text-yellow-300 text-sm">
+                  <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></div>
+                  <span>{callState.status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
 
         <div className="absolute bottom-0 left-0 right-0 pb-safe bg-gradient-to-t from-black/60 via-black/30 to-transparent backdrop-blur-md">
           <div className="flex items-center justify-between px-4 py-6 pb-10 md:py-6 md:pb-8 md:min-h-[120px] min-h-[160px]">
-          <div className="w-16"></div>
+          <div className="w-16 flex flex-col items-center space-y-2">
+            <button
+              onClick={() => setMotionMode(!motionMode)}
+              className={`${motionMode ? 'bg-white/50' : 'bg-white/20 hover:bg-white/30'} text-white text-xs rounded-full px-3 py-1 backdrop-blur-sm`}
+              title="Motion mode: buffer frames twice a second and describe actions when the scene changes"
+            >
+              Motion
+            </button>
+            {motionMode && (
+              <button
+                onClick={analyzeMotion}
+                disabled={!visionProcessor || visionProcessing}
+                className="w-12 h-12 rounded-full bg-white/20 hover:bg-white/30 disabled:opacity-50 flex items-center justify-center backdrop-blur-sm"
+                title="Describe what just happened"
+              >
+                <FontAwesomeIcon icon={faPersonRunning} className="text-white" style={{ width: 20, height: 20 }} />
+              </button>
+            )}
+          </div>
           
           <button
-            onClick={callActive ? handleStopCall : handleStartCall}
+            onClick={callInProgress ? handleStopCall : handleStartCall}
             className={`
               w-20 h-20 rounded-full flex items-center justify-center
               transition-all duration-200 backdrop-blur-sm
-              ${callActive 
+              ${callInProgress 
                 ? 'bg-red-500 hover:bg-red-600 border-4 border-red-300 active:scale-95' 
                 : 'bg-white hover:bg-gray-100 active:scale-95'
               }
             `}
           >
-            {callActive ? (
+            {callInProgress ? (
               <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 24 24">
                 <path d="M6 6h12v12H6z"/>
               </svg>
@@ -337,8 +1019,21 @@ function GeminiLiveMVP() {
             )}
           </button>
 
+          <div className="flex flex-col items-center space-y-2">
+          <select
+            value={visionMode}
+            onChange={(e) => setVisionMode(e.target.value as VisionModeId)}
+            className="bg-white/20 text-white text-xs rounded-full px-3 py-1 backdrop-blur-sm outline-none"
+            title="Vision mode"
+          >
+            {VISION_MODES.map(mode => (
+              <option key={mode.id} value={mode.id} className="text-black">
+                {mode.label}
+              </option>
+            ))}
+          </select>
           <button
-            onClick={() => analyzeCurrentFrame("What do you see?")}
+            onClick={() => analyzeCurrentFrame()}
             disabled={!callActive || !visionProcessor || visionProcessing}
             className={`
               w-16 h-16 rounded-full border-4 border-white/30 flex items-center justify-center
@@ -355,13 +1050,88 @@ function GeminiLiveMVP() {
             `} />
           </button>
           </div>
+          </div>
         </div>
 
-        {isClient && (!vapiPublicKey || !vapiAssistantId) && (
+        {editingMasks && (
+          <div className="absolute top-20 left-4 right-4 mx-auto max-w-md bg-black/80 backdrop-blur-md text-white text-sm rounded-2xl p-4 z-20 space-y-3">
+            <div>
+              Drag over anything that must never be sent, such as a second monitor. Masked areas are blacked out in the
+              browser before each frame is encoded.
+            </div>
+            {faceBlurSupported && (
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" checked={faceBlurEnabled} onChange={e => setFaceBlurEnabled(e.target.checked)} />
+                <span>Blur faces automatically</span>
+              </label>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-white/60">{redactionMasks.length} mask{redactionMasks.length === 1 ? '' : 's'}</span>
+              <div className="space-x-2">
+                <button
+                  onClick={() => redactor.current.clearMasks()}
+                  disabled={redactionMasks.length === 0}
+                  className="bg-white/20 hover:bg-white/30 disabled:opacity-50 rounded-full px-3 py-1"
+                >
+                  Clear all
+                </button>
+                <button
+                  onClick={() => setEditingMasks(false)}
+                  className="bg-white text-black hover:bg-gray-100 rounded-full px-3 py-1"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="absolute top-16 left-4 right-4 z-10 space-y-2">
+          <StatusBanners banners={banners} />
+          <CodeChips codes={detectedCodes} onDismiss={code => codeScannerRef.current?.dismiss(code)} />
+        </div>
+
+        {photoAnalysis && (
+          <PhotoAnalysisCard analysis={photoAnalysis} onClose={closePhotoAnalysis} />
+        )}
+
+        {showDebug && (
+          <DebugOverlay
+            metrics={debugMetrics}
+            thumbnail={capturedImage}
+            description={lastVisionDescription}
+            onClose={() => setShowDebug(false)}
+          />
+        )}
+
+        {showGallery && (
+          <SnapshotGalleryPanel
+            snapshots={snapshots}
+            defaultMode={visionMode}
+            canShare={callActive && voice !== null}
+            onAsk={askSnapshot}
+            onShare={shareSnapshot}
+            onDelete={snapshot => gallery.current.remove(snapshot.id).catch(() => {})}
+            onClose={() => setShowGallery(false)}
+          />
+        )}
+
+        {showSessionLog && (
+          <SessionLogPanel
+            snapshot={sessionSnapshot}
+            includeThumbnails={includeThumbnails}
+            onToggleThumbnails={setIncludeThumbnails}
+            onExportJson={() => exportSessionLog('json')}
+            onExportMarkdown={() => exportSessionLog('markdown')}
+            onClose={() => setShowSessionLog(false)}
+          />
+        )}
+
+        {isClient && visionProcessor && !voice && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-red-500/90 backdrop-blur-sm rounded-2xl p-6 text-white text-center max-w-sm mx-4">
             <div className="font-medium mb-2">Setup Required</div>
             <div className="text-sm opacity-90">
-              Please set your Vapi credentials in the environment variables.
+              Please set your Vapi credentials in the environment variables, or use a browser with speech recognition.
             </div>
           </div>
         )}
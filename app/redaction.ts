@@ -0,0 +1,212 @@
+import { NormalizedRegion } from './vision-tools';
+
+// Everything here is in fractions of the unmirrored video frame, so a mask
+// covers the same physical area whichever way the preview is flipped.
+
+export interface RedactionMask {
+  id: string;
+  region: NormalizedRegion;
+}
+
+/**
+ * Finds regions to blur in a captured canvas, in fractions of that canvas.
+ * Runs before every encode; a detector that throws blocks the frame.
+ */
+export type RedactionDetector = (canvas: HTMLCanvasElement) => Promise<NormalizedRegion[]>;
+
+export interface RedactionReport {
+  /** User masks that overlapped the captured area and were blacked out. */
+  masked: number;
+  /** Regions the detector found and blurred, in frame fractions. */
+  detected: NormalizedRegion[];
+  timestamp: number;
+}
+
+type RedactionListener = (report: RedactionReport) => void;
+
+const STORAGE_KEY = 'vision-redaction-masks';
+const BLUR_PX = 16;
+
+function intersect(a: NormalizedRegion, b: NormalizedRegion): NormalizedRegion | null {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return right > left && bottom > top ? { x: left, y: top, width: right - left, height: bottom - top } : null;
+}
+
+/**
+ * Redaction stage between drawing a frame and encoding it. Blacks out the
+ * user's persistent masks and blurs whatever the optional detector finds.
+ * Masks are kept in localStorage.
+ */
+export class Redactor {
+  private masks: RedactionMask[] = [];
+  private detector: RedactionDetector | null = null;
+  private lastReport: RedactionReport = { masked: 0, detected: [], timestamp: 0 };
+  private listeners = new Set<RedactionListener>();
+  private maskListeners = new Set<(masks: RedactionMask[]) => void>();
+
+  constructor() {
+    this.masks = this.load();
+  }
+
+  getMasks(): RedactionMask[] {
+    return [...this.masks];
+  }
+
+  addMask(region: NormalizedRegion): RedactionMask {
+    const mask = { id: `mask_${Date.now()}_${this.masks.length}`, region };
+    this.setMasks([...this.masks, mask]);
+    return mask;
+  }
+
+  removeMask(id: string) {
+    this.setMasks(this.masks.filter(mask => mask.id !== id));
+  }
+
+  clearMasks() {
+    this.setMasks([]);
+  }
+
+  setDetector(detector: RedactionDetector | null) {
+    this.detector = detector;
+  }
+
+  hasDetector(): boolean {
+    return this.detector !== null;
+  }
+
+  getLastReport(): RedactionReport {
+    return this.lastReport;
+  }
+
+  /** Called after every redacted capture. Returns an unsubscribe function. */
+  subscribe(listener: RedactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeMasks(listener: (masks: RedactionMask[]) => void): () => void {
+    this.maskListeners.add(listener);
+    return () => {
+      this.maskListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Redacts `canvas` in place. `view` is the part of the frame the canvas
+   * holds (the whole frame unless it is a crop), unmirrored.
+   */
+  async redact(
+    canvas: HTMLCanvasElement,
+    view: NormalizedRegion = { x: 0, y: 0, width: 1, height: 1 }
+  ): Promise<RedactionReport> {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas has no 2D context');
+
+    // Detection runs on the unredacted pixels, blurring happens before the
+    // masks are painted so masked areas stay solid black.
+    const detectedInCanvas = this.detector ? await this.detector(canvas) : [];
+    for (const region of detectedInCanvas) {
+      this.blur(ctx, canvas, region);
+    }
+
+    let masked = 0;
+    ctx.fillStyle = '#000';
+    for (const mask of this.masks) {
+      const overlap = intersect(mask.region, view);
+      if (!overlap) continue;
+      masked++;
+      ctx.fillRect(
+        ((overlap.x - view.x) / view.width) * canvas.width,
+        ((overlap.y - view.y) / view.height) * canvas.height,
+        (overlap.width / view.width) * canvas.width,
+        (overlap.height / view.height) * canvas.height
+      );
+    }
+
+    this.lastReport = {
+      masked,
+      detected: detectedInCanvas.map(region => ({
+        x: view.x + region.x * view.width,
+        y: view.y + region.y * view.height,
+        width: region.width * view.width,
+        height: region.height * view.height,
+      })),
+      timestamp: Date.now(),
+    };
+    this.listeners.forEach(listener => listener(this.lastReport));
+    return this.lastReport;
+  }
+
+  private blur(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, region: NormalizedRegion) {
+    const x = Math.floor(region.x * canvas.width);
+    const y = Math.floor(region.y * canvas.height);
+    const width = Math.ceil(region.width * canvas.width);
+    const height = Math.ceil(region.height * canvas.height);
+    if (width <= 0 || height <= 0) return;
+
+    // Pixelate through a tiny canvas, which unlike `ctx.filter` works in
+    // every browser.
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(width / BLUR_PX));
+    small.height = Math.max(1, Math.round(height / BLUR_PX));
+    small.getContext('2d')?.drawImage(canvas, x, y, width, height, 0, 0, small.width, small.height);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+    ctx.restore();
+  }
+
+  private setMasks(masks: RedactionMask[]) {
+    this.masks = masks;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(masks));
+    } catch {
+      // Storage may be unavailable (private mode); masks still apply this session.
+    }
+    this.maskListeners.forEach(listener => listener(this.getMasks()));
+  }
+
+  private load(): RedactionMask[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter(mask => typeof mask?.id === 'string' && typeof mask?.region?.x === 'number')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// The Shape Detection API's face detector is not in TypeScript's DOM lib.
+interface FaceDetectorLike {
+  detect(image: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+/**
+ * Detector backed by the Shape Detection API's `FaceDetector`, or null where
+ * the browser doesn't provide it.
+ */
+export function createFaceDetector(): RedactionDetector | null {
+  const FaceDetectorImpl = (globalThis as typeof globalThis & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (typeof FaceDetectorImpl !== 'function') return null;
+
+  const detector = new FaceDetectorImpl({ fastMode: true });
+  return async canvas => {
+    const faces = await detector.detect(canvas);
+    return faces.map(({ boundingBox }) => ({
+      x: boundingBox.x / canvas.width,
+      y: boundingBox.y / canvas.height,
+      width: boundingBox.width / canvas.width,
+      height: boundingBox.height / canvas.height,
+    }));
+  };
+}
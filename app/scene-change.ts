@@ -0,0 +1,140 @@
+export interface SceneChangeOptions {
+  /** 0 (only large changes count) to 1 (almost any change counts). */
+  sensitivity: number;
+  /** Send a frame at least this often even when nothing changed. */
+  forceRefreshMs: number;
+  /** Width and height of the luminance grid frames are compared on. */
+  sampleWidth: number;
+  sampleHeight: number;
+}
+
+export type SceneChangeReason = 'initial' | 'changed' | 'forced' | 'static';
+
+export interface SceneChangeResult {
+  changed: boolean;
+  reason: SceneChangeReason;
+  /** Fraction of sampled pixels whose luminance moved past the pixel threshold. */
+  score: number;
+}
+
+const DEFAULT_OPTIONS: SceneChangeOptions = {
+  sensitivity: 0.5,
+  forceRefreshMs: 30000,
+  sampleWidth: 32,
+  sampleHeight: 24
+};
+
+// A sampled pixel counts as changed when its luminance moves by more than
+// this many levels; smaller moves are mostly sensor noise and compression.
+const PIXEL_DELTA_THRESHOLD = 24;
+
+/**
+ * Compares downsampled luminance grids of consecutive captures so static
+ * scenes can be skipped before anything is uploaded.
+ */
+export class SceneChangeDetector {
+  private options: SceneChangeOptions;
+  private reference: Uint8ClampedArray | null = null;
+  private lastAcceptedAt = 0;
+  private sampleCanvas: HTMLCanvasElement | null = null;
+  private evaluated = 0;
+  private skipped = 0;
+
+  constructor(options?: Partial<SceneChangeOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  configure(options: Partial<SceneChangeOptions>) {
+    const resized = (options.sampleWidth !== undefined && options.sampleWidth !== this.options.sampleWidth)
+      || (options.sampleHeight !== undefined && options.sampleHeight !== this.options.sampleHeight);
+    this.options = { ...this.options, ...options };
+    if (resized) this.reset();
+  }
+
+  /**
+   * Checks `source` against the last accepted frame. Accepted frames become
+   * the new reference, so slow drift still adds up to a change eventually.
+   */
+  evaluate(source: CanvasImageSource, now = Date.now()): SceneChangeResult {
+    this.evaluated++;
+    const luminance = this.sample(source);
+
+    if (!luminance) {
+      return { changed: true, reason: 'initial', score: 1 };
+    }
+
+    if (!this.reference) {
+      this.accept(luminance, now);
+      return { changed: true, reason: 'initial', score: 1 };
+    }
+
+    const score = this.diff(this.reference, luminance);
+
+    if (score >= this.changeThreshold()) {
+      this.accept(luminance, now);
+      return { changed: true, reason: 'changed', score };
+    }
+
+    if (now - this.lastAcceptedAt >= this.options.forceRefreshMs) {
+      this.accept(luminance, now);
+      return { changed: true, reason: 'forced', score };
+    }
+
+    this.skipped++;
+    return { changed: false, reason: 'static', score };
+  }
+
+  reset() {
+    this.reference = null;
+    this.lastAcceptedAt = 0;
+  }
+
+  getStats() {
+    return {
+      evaluated: this.evaluated,
+      skipped: this.skipped,
+      sensitivity: this.options.sensitivity
+    };
+  }
+
+  private changeThreshold(): number {
+    // Sensitivity 0 needs 20% of the grid to change, sensitivity 1 needs 0.5%.
+    const sensitivity = Math.min(1, Math.max(0, this.options.sensitivity));
+    return 0.2 - sensitivity * 0.195;
+  }
+
+  private accept(luminance: Uint8ClampedArray, now: number) {
+    this.reference = luminance;
+    this.lastAcceptedAt = now;
+  }
+
+  private diff(previous: Uint8ClampedArray, current: Uint8ClampedArray): number {
+    let changedPixels = 0;
+    for (let i = 0; i < current.length; i++) {
+      if (Math.abs(current[i] - previous[i]) > PIXEL_DELTA_THRESHOLD) changedPixels++;
+    }
+    return changedPixels / current.length;
+  }
+
+  private sample(source: CanvasImageSource): Uint8ClampedArray | null {
+    const { sampleWidth, sampleHeight } = this.options;
+
+    if (!this.sampleCanvas) {
+      this.sampleCanvas = document.createElement('canvas');
+    }
+    this.sampleCanvas.width = sampleWidth;
+    this.sampleCanvas.height = sampleHeight;
+
+    const ctx = this.sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(source, 0, 0, sampleWidth, sampleHeight);
+    const { data } = ctx.getImageData(0, 0, sampleWidth, sampleHeight);
+
+    const luminance = new Uint8ClampedArray(sampleWidth * sampleHeight);
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+      luminance[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    return luminance;
+  }
+}
@@ -1,155 +1,696 @@
+import { AdaptiveCaptureController, CaptureBounds } from './capture-controller';
+import { SessionClient } from './session-client';
+import { DEFAULT_VISION_MODE, VisionModeId } from './vision-modes';
+import { StructuredScene } from './vision-types';
+
+type FramePriority = 'low' | 'medium' | 'high';
+
 interface SecureVisionFrame {
   id: string;
   imageData: string;
   timestamp: number;
-  priority: 'low' | 'medium' | 'high';
-  userPrompt?: string;
+  priority: FramePriority;
+  mode: VisionModeId;
+  question?: string;
+  /** Earlier frames of a burst, oldest first; `imageData` is the latest. */
+  burst?: string[];
+  burstIntervalMs?: number;
+  attempts: number;
+  /** Called once with the new description, or null if the frame was dropped, cancelled or failed. */
+  resolve?: (description: string | null) => void;
 }
 
-interface VisionResponse {
+export interface VisionResponse {
   description: string;
+  scene?: StructuredScene;
+  /** Present when previous state was sent; null if nothing notable changed. */
+  changes?: string | null;
+  /** Number of frames a burst description was read from. */
+  frames?: number;
+  usage?: UsageReport;
+  /** The server answered from its cache or a shared identical request, without an upstream call. */
+  cached?: boolean;
   timestamp: number;
   success: boolean;
   error?: string;
 }
 
+class VisionRequestError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number, public code?: string) {
+    super(message);
+    this.name = 'VisionRequestError';
+  }
+}
+
+export interface DescriptionUpdate {
+  frameId: string;
+  /** True while a streamed description is still arriving. */
+  partial: boolean;
+  /** Follow-up question the frame was sent with, if any. */
+  question?: string;
+  /**
+   * What changed since the previous background frame, as reported by the
+   * route. Only set on final updates when `delta` is enabled.
+   */
+  changes?: string | null;
+  /**
+   * Set for bursts: the number of frames the action was read from. Burst
+   * descriptions don't replace the current scene description.
+   */
+  burst?: number;
+}
+
+/** Token counts and estimated cost, as reported by the vision routes. */
+export interface UsageReport {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals extends UsageReport {
+  requests: number;
+}
+
+/**
+ * Per-call caps on what the processor spends. Enforced in the browser only,
+ * so they protect an honest client's bill, not the server; the session
+ * token's request budget (`SESSION_TOKEN_BUDGET`) is the server-side limit.
+ */
+export interface VisionBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  /** Fraction of a cap at which background frames slow down (default 0.8). */
+  throttleAt?: number;
+  /** Capture interval held while throttled (default 10000). */
+  throttledIntervalMs?: number;
+}
+
+export interface BurstOptions {
+  /** Frames kept in the ring buffer and sent per burst (default 6). */
+  size?: number;
+  /** Buffered frames older than this are left out (default 6000). */
+  maxAgeMs?: number;
+  /** Minimum time between automatic bursts (default 15000). */
+  cooldownMs?: number;
+}
+
+/** 'throttled' slows background frames; 'paused' stops all requests. */
+export type BudgetState = 'ok' | 'throttled' | 'paused';
+
+type DescriptionListener = (description: string, scene?: StructuredScene, update?: DescriptionUpdate) => void;
+
+interface StreamState {
+  emittedLength: number;
+  started: boolean;
+  suppressed: boolean;
+}
+
+const PRIORITY_RANK: Record<FramePriority, number> = { high: 0, medium: 1, low: 2 };
+const MAX_QUEUE_LENGTH = 10;
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+// Background frames describe "now"; once this old they are not worth sending.
+const STALE_FRAME_MS = 5000;
+const REQUEST_TIMEOUT_MS = 20000;
+const MIN_BACKGROUND_INTERVAL_MS = 1000;
+const EMPTY_USAGE: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+
 export class SecureVisionProcessor {
   private frameQueue: SecureVisionFrame[] = [];
   private isBackgroundProcessing = false;
   private currentDescription = '';
+  private currentScene: StructuredScene | null = null;
+  private structured: boolean;
+  private streaming: boolean;
+  private mode: VisionModeId = DEFAULT_VISION_MODE;
+  private delta: 'description' | 'frame' | false;
+  // Last background frame that was described, sent as prior state.
+  private previousFrame: { imageData: string; description: string; mode: VisionModeId } | null = null;
+  // Ring buffer of recent captures for bursts.
+  private recentFrames: { imageData: string; timestamp: number }[] = [];
+  private burstOptions: Required<BurstOptions>;
+  private lastBurstAt = 0;
   private lastSignificantChange = 0;
   private frameCounter = 0;
   private avgProcessingTime = 2000;
   private successRate = 1.0;
-  private onDescriptionUpdate?: (description: string) => void;
+  private session = new SessionClient();
+  private capture: AdaptiveCaptureController;
+  private budget: VisionBudget;
+  private budgetState: BudgetState = 'ok';
+  private usage: UsageTotals = { ...EMPTY_USAGE };
+  private inFlight: { frame: SecureVisionFrame; controller: AbortController; startedAt: number } | null = null;
+  private schedulerTimer: ReturnType<typeof setTimeout> | null = null;
+  private backoffUntil = 0;
+  private lastRequestFinishedAt = 0;
+  private destroyed = false;
+  private counters = { processed: 0, retried: 0, cancelled: 0, dropped: 0, rateLimited: 0, cacheHits: 0 };
+  private listeners = new Set<DescriptionListener>();
+  private onDescriptionUpdate?: DescriptionListener;
   private onProcessingStateChange?: (isProcessing: boolean) => void;
+  private onUsageChange?: (usage: UsageTotals, budgetState: BudgetState) => void;
+  private onRequestError?: (error: Error & { code?: string }) => void;
 
   constructor(callbacks?: {
-    onDescriptionUpdate?: (description: string) => void;
+    onDescriptionUpdate?: DescriptionListener;
     onProcessingStateChange?: (isProcessing: boolean) => void;
+    onUsageChange?: (usage: UsageTotals, budgetState: BudgetState) => void;
+    /**
+     * A request was rejected in a way retrying won't fix, such as an
+     * exhausted session budget (`code` is then `budget_exhausted`).
+     */
+    onRequestError?: (error: Error & { code?: string }) => void;
+  }, options?: {
+    /** Ask the route for schema-validated scene JSON instead of prose only. */
+    structured?: boolean;
+    /**
+     * Stream descriptions over SSE and emit partial updates per sentence.
+     * Applies to user requests, and to background frames unless `structured`
+     * is on, since structured scenes cannot be streamed.
+     */
+    streaming?: boolean;
+    /**
+     * Send the previous background frame's description ('description') or
+     * also its image ('frame') so the route reports what changed.
+     */
+    delta?: 'description' | 'frame' | false;
+    /** Bounds for the adaptive capture size, quality and interval. */
+    captureBounds?: Partial<CaptureBounds>;
+    /** Token and cost caps for the session; see `BudgetState`. */
+    budget?: VisionBudget;
+    /** Ring buffer size and pacing for multi-frame action reads. */
+    burst?: BurstOptions;
   }) {
     this.onDescriptionUpdate = callbacks?.onDescriptionUpdate;
     this.onProcessingStateChange = callbacks?.onProcessingStateChange;
+    this.onUsageChange = callbacks?.onUsageChange;
+    this.onRequestError = callbacks?.onRequestError;
+    this.budget = options?.budget ?? {};
+    this.structured = options?.structured ?? false;
+    this.streaming = options?.streaming ?? false;
+    this.delta = options?.delta ?? false;
+    this.capture = new AdaptiveCaptureController(options?.captureBounds);
+    this.burstOptions = { size: 6, maxAgeMs: 6000, cooldownMs: 15000, ...options?.burst };
 
-    // DISABLED: Background processor - using direct calls for automatic processing
-    // this.startBackgroundProcessor();
+    this.startBackgroundProcessor();
   }
 
-  addFrame(imageBase64: string, userPrompt?: string): string {
+  /**
+   * Queues a background frame. Low-priority frames are thinned out by
+   * `shouldProcessFrame` when the scene has been stable for a while.
+   */
+  addFrame(imageBase64: string, question?: string, priority: Exclude<FramePriority, 'high'> = 'low'): string {
+    this.frameCounter++;
+    this.capture.recordPayload(Math.round(imageBase64.length * 3 / 4));
+
+    if (this.budgetState === 'paused') {
+      return this.currentDescription;
+    }
+
+    if (priority === 'low' && !this.shouldProcessFrame()) {
+      return this.currentDescription;
+    }
+
+    this.enqueueFrame({
+      id: `frame_${Date.now()}_${this.frameCounter}`,
+      imageData: imageBase64,
+      timestamp: Date.now(),
+      priority,
+      mode: this.mode,
+      question,
+      attempts: 0
+    });
+
     return this.currentDescription;
   }
 
+  /** Adds a capture to the burst ring buffer without sending it. */
+  recordFrame(imageBase64: string, timestamp = Date.now()) {
+    this.recentFrames.push({ imageData: imageBase64, timestamp });
+    if (this.recentFrames.length > this.burstOptions.size) {
+      this.recentFrames.shift();
+    }
+  }
+
+  /**
+   * Sends the buffered frames as one request asking what happened over
+   * time, ahead of background frames. Resolves with the description, or
+   * null when fewer than two recent frames are buffered or the request
+   * fails.
+   */
+  analyzeBurst(question?: string): Promise<string | null> {
+    return new Promise(resolve => {
+      const frame = this.destroyed || this.budgetState === 'paused' ? null : this.takeBurst('high', question);
+      if (!frame) {
+        resolve(null);
+        return;
+      }
+      this.enqueueFrame({ ...frame, resolve });
+    });
+  }
+
+  /**
+   * Queues a background burst, e.g. when the scene changes. Returns false
+   * if the last burst was less than `cooldownMs` ago or too few recent
+   * frames are buffered.
+   */
+  addBurst(): boolean {
+    if (this.budgetState === 'paused' || Date.now() - this.lastBurstAt < this.burstOptions.cooldownMs) {
+      return false;
+    }
+    const frame = this.takeBurst('medium');
+    if (!frame) return false;
+    this.enqueueFrame(frame);
+    return true;
+  }
+
+  private takeBurst(priority: FramePriority, question?: string): SecureVisionFrame | null {
+    const now = Date.now();
+    const frames = this.recentFrames.filter(f => now - f.timestamp <= this.burstOptions.maxAgeMs);
+    if (frames.length < 2) return null;
+
+    this.lastBurstAt = now;
+    const latest = frames[frames.length - 1];
+    return {
+      id: `burst_${now}_${++this.frameCounter}`,
+      imageData: latest.imageData,
+      burst: frames.slice(0, -1).map(f => f.imageData),
+      burstIntervalMs: Math.round((latest.timestamp - frames[0].timestamp) / (frames.length - 1)),
+      timestamp: now,
+      priority,
+      mode: this.mode,
+      question,
+      attempts: 0
+    };
+  }
+
+  /**
+   * Adds a listener for significant description changes alongside the
+   * constructor callback. Returns an unsubscribe function.
+   */
+  subscribe(listener: DescriptionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   private shouldProcessFrame(): boolean {
     const timeSinceLastChange = Date.now() - this.lastSignificantChange;
-    
+
     if (timeSinceLastChange < 5000) return this.frameCounter % 2 === 0;
     if (timeSinceLastChange < 15000) return this.frameCounter % 4 === 0;
     return this.frameCounter % 8 === 0;
   }
 
   private enqueueFrame(frame: SecureVisionFrame) {
-    this.frameQueue = this.frameQueue.filter(f => 
-      f.priority !== 'low' || Date.now() - f.timestamp < 5000
-    );
+    const now = Date.now();
+    this.frameQueue = this.frameQueue.filter(f => {
+      const stale = f.priority !== 'high' && now - f.timestamp >= STALE_FRAME_MS;
+      if (stale) this.dropFrame(f);
+      return !stale;
+    });
 
-    if (frame.priority === 'high') {
-      this.frameQueue.unshift(frame);
-    } else {
+    const insertAt = this.frameQueue.findIndex(f => PRIORITY_RANK[f.priority] > PRIORITY_RANK[frame.priority]);
+    if (insertAt === -1) {
       this.frameQueue.push(frame);
+    } else {
+      this.frameQueue.splice(insertAt, 0, frame);
     }
 
-    if (this.frameQueue.length > 10) {
-      this.frameQueue = this.frameQueue.slice(-10);
+    while (this.frameQueue.length > MAX_QUEUE_LENGTH) {
+      // Evict the oldest frame of the lowest priority present.
+      const lowestRank = Math.max(...this.frameQueue.map(f => PRIORITY_RANK[f.priority]));
+      const evictAt = this.frameQueue.findIndex(f => PRIORITY_RANK[f.priority] === lowestRank);
+      this.dropFrame(this.frameQueue.splice(evictAt, 1)[0]);
+    }
+
+    this.preemptIfNeeded(frame);
+    this.schedule(0);
+  }
+
+  /**
+   * User requests abort an in-flight background frame, and a background
+   * request that has been running long enough to be stale gives way to a
+   * newer frame.
+   */
+  private preemptIfNeeded(incoming: SecureVisionFrame) {
+    if (!this.inFlight || this.inFlight.frame.priority === 'high') return;
+
+    const preemptedByUser = incoming.priority === 'high';
+    const stale = Date.now() - this.inFlight.startedAt >= STALE_FRAME_MS;
+
+    if (preemptedByUser || stale) {
+      this.inFlight.controller.abort();
     }
   }
 
+  private dropFrame(frame: SecureVisionFrame) {
+    this.counters.dropped++;
+    frame.resolve?.(null);
+  }
+
   private startBackgroundProcessor() {
-    const processNext = async () => {
-      if (this.frameQueue.length === 0) {
-        setTimeout(processNext, 1000);
-        return;
-      }
+    this.schedule(0);
+  }
+
+  private schedule(delayMs: number) {
+    if (this.destroyed) return;
+    if (this.schedulerTimer) clearTimeout(this.schedulerTimer);
+    this.schedulerTimer = setTimeout(() => {
+      this.schedulerTimer = null;
+      this.processNext();
+    }, delayMs);
+  }
+
+  private processNext() {
+    if (this.destroyed || this.isBackgroundProcessing || this.frameQueue.length === 0) return;
+
+    const now = Date.now();
+    const next = this.frameQueue[0];
 
-      if (this.isBackgroundProcessing) {
-        setTimeout(processNext, 500);
+    if (now < this.backoffUntil) {
+      this.schedule(this.backoffUntil - now);
+      return;
+    }
+
+    if (next.priority !== 'high') {
+      const minInterval = this.budgetState === 'throttled'
+        ? this.budget.throttledIntervalMs ?? 10000
+        : MIN_BACKGROUND_INTERVAL_MS;
+      const spacing = this.lastRequestFinishedAt + minInterval - now;
+      if (spacing > 0) {
+        this.schedule(spacing);
         return;
       }
+    }
 
-      const frame = this.frameQueue.shift()!;
-      await this.processFrameInBackground(frame);
-      
-      setTimeout(processNext, 2000);
-    };
-
-    processNext();
+    const frame = this.frameQueue.shift()!;
+    this.processFrameInBackground(frame).finally(() => {
+      this.lastRequestFinishedAt = Date.now();
+      this.schedule(0);
+    });
   }
 
   private async processFrameInBackground(frame: SecureVisionFrame) {
     this.isBackgroundProcessing = true;
     this.onProcessingStateChange?.(true);
-    
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REQUEST_TIMEOUT_MS);
     const startTime = Date.now();
+    this.inFlight = { frame, controller, startedAt: startTime };
+    frame.attempts++;
+
+    const stream: StreamState = { emittedLength: 0, started: false, suppressed: false };
 
     try {
-      const response = await fetch('/api/vision', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          imageBase64: frame.imageData,
-          userPrompt: frame.userPrompt
-        })
-      });
+      const { description, scene, changes, usage, cached } = this.shouldStream(frame)
+        ? await this.requestStreamedDescription(frame, controller.signal, text => this.handlePartial(frame, text, stream))
+        : await this.requestDescription(frame, controller.signal);
+      const processingTime = Date.now() - startTime;
+      this.recordUsage(usage);
 
-      if (!response.ok) {
-        if (response.status === 429) {
-          const errorData = await response.json();
-          return;
-        }
-        throw new Error(`API call failed: ${response.status}`);
-      }
+      this.updateMetrics(cached ? null : processingTime, true);
+      this.counters.processed++;
+      if (cached) this.counters.cacheHits++;
 
-      const result: VisionResponse = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Vision processing failed');
+      if (this.isDeltaFrame(frame)) {
+        this.previousFrame = { imageData: frame.imageData, description, mode: frame.mode };
       }
 
-      const description = result.description;
-      const processingTime = Date.now() - startTime;
-
-      this.updateMetrics(processingTime, true);
-
-      if (this.isSignificantChange(description)) {
+      if (frame.burst) {
+        this.emitDescription(description, undefined, {
+          frameId: frame.id,
+          partial: false,
+          question: frame.question,
+          burst: frame.burst.length + 1
+        });
+      } else if (stream.started || this.isSignificantChange(description) || changes) {
+        // Once partial sentences went out, the final text always follows.
         this.currentDescription = description;
+        this.currentScene = scene ?? null;
         this.lastSignificantChange = Date.now();
-        this.onDescriptionUpdate?.(description);
+        this.emitDescription(description, scene, {
+          frameId: frame.id,
+          partial: false,
+          question: frame.question,
+          ...(changes !== undefined ? { changes } : {})
+        });
       }
 
+      frame.resolve?.(description);
+
     } catch (error) {
+      if (controller.signal.aborted && !timedOut) {
+        this.counters.cancelled++;
+        frame.resolve?.(null);
+        return;
+      }
+
       this.updateMetrics(Date.now() - startTime, false);
+      this.handleFailure(frame, error);
     } finally {
+      clearTimeout(timeout);
+      this.inFlight = null;
       this.isBackgroundProcessing = false;
       this.onProcessingStateChange?.(false);
     }
   }
 
-  private isSignificantChange(newDescription: string): boolean {
-    if (!this.currentDescription) return true;
+  private emitDescription(description: string, scene: StructuredScene | undefined, update: DescriptionUpdate) {
+    this.onDescriptionUpdate?.(description, scene, update);
+    this.listeners.forEach(listener => listener(description, scene, update));
+  }
+
+  private shouldStream(frame: SecureVisionFrame): boolean {
+    return this.streaming && (frame.priority === 'high' || !this.structured || Boolean(frame.burst));
+  }
+
+  /**
+   * Emits the completed sentences of a streamed description. Background
+   * frames only start emitting if their opening sentences differ from the
+   * current description; user requests always do.
+   */
+  private handlePartial(frame: SecureVisionFrame, text: string, state: StreamState) {
+    if (state.suppressed) return;
+
+    const boundaries = [...text.matchAll(/[.!?]["')\]]*\s/g)];
+    if (boundaries.length === 0) return;
+    const last = boundaries[boundaries.length - 1];
+    const sentences = text.slice(0, last.index! + last[0].length).trim();
+
+    if (sentences.length <= state.emittedLength) return;
+
+    if (!state.started) {
+      const reference = this.currentDescription.split(/(?<=[.!?])\s+/).slice(0, boundaries.length).join(' ');
+      if (frame.priority !== 'high' && !frame.burst && this.currentDescription
+        && !this.isSignificantChange(sentences, reference)) {
+        state.suppressed = true;
+        return;
+      }
+      state.started = true;
+    }
+
+    state.emittedLength = sentences.length;
+    this.emitDescription(sentences, undefined, {
+      frameId: frame.id,
+      partial: true,
+      question: frame.question,
+      ...(frame.burst ? { burst: frame.burst.length + 1 } : {})
+    });
+  }
+
+  private async requestStreamedDescription(
+    frame: SecureVisionFrame,
+    signal: AbortSignal,
+    onText: (text: string) => void
+  ): Promise<VisionResponse> {
+    const response = await this.postFrame('/api/vision/stream', frame, signal);
+
+    if (!response.ok) {
+      throw await this.toRequestError(response);
+    }
+    if (!response.body) {
+      throw new VisionRequestError('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.+)$/m)?.[1];
+        const data = raw.match(/^data: (.+)$/m)?.[1];
+        if (!event || !data) continue;
+        const payload = JSON.parse(data);
+
+        if (event === 'chunk') {
+          text += payload.text;
+          onText(text);
+        } else if (event === 'done') {
+          return payload as VisionResponse;
+        } else if (event === 'error') {
+          throw new VisionRequestError(
+            payload.message || payload.error || 'Vision processing failed',
+            payload.status,
+            payload.status === 429 ? 60000 : undefined
+          );
+        }
+      }
+    }
+
+    throw new VisionRequestError('Stream ended before completion');
+  }
+
+  /** Background frames without a question are compared with the previous one. */
+  private isDeltaFrame(frame: SecureVisionFrame): boolean {
+    return Boolean(this.delta) && frame.priority !== 'high' && !frame.question && !frame.burst;
+  }
+
+  private postFrame(url: string, frame: SecureVisionFrame, signal: AbortSignal): Promise<Response> {
+    const previous = this.isDeltaFrame(frame) && this.previousFrame?.mode === frame.mode
+      ? this.previousFrame
+      : null;
+
+    return this.session.fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(frame.burst
+        ? {
+            frames: [...frame.burst, frame.imageData],
+            frameIntervalMs: frame.burstIntervalMs || undefined,
+            mode: frame.mode,
+            question: frame.question || undefined
+          }
+        : {
+            imageBase64: frame.imageData,
+            mode: frame.mode,
+            question: frame.question || undefined,
+            structured: this.structured,
+            previousDescription: previous?.description || undefined,
+            previousImageBase64: previous && this.delta === 'frame' ? previous.imageData : undefined
+          }),
+      signal
+    });
+  }
 
-    const currentWords = new Set(this.currentDescription.toLowerCase().split(' '));
+  private async toRequestError(response: Response): Promise<VisionRequestError> {
+    if (response.status === 429) {
+      const errorData = await response.json().catch(() => ({}));
+      return new VisionRequestError(
+        errorData.message || 'Rate limited',
+        429,
+        this.parseRetryAfter(response, errorData)
+      );
+    }
+    const errorData = await response.json().catch(() => ({}));
+    return new VisionRequestError(
+      errorData.error || `API call failed: ${response.status}`,
+      response.status,
+      undefined,
+      errorData.code
+    );
+  }
+
+  private async requestDescription(frame: SecureVisionFrame, signal: AbortSignal): Promise<VisionResponse> {
+    const response = await this.postFrame('/api/vision', frame, signal);
+
+    if (!response.ok) {
+      throw await this.toRequestError(response);
+    }
+
+    const result: VisionResponse = await response.json();
+
+    if (!result.success) {
+      throw new VisionRequestError(result.error || 'Vision processing failed');
+    }
+
+    return result;
+  }
+
+  private parseRetryAfter(response: Response, errorData: { retryAfter?: number }): number | undefined {
+    const header = response.headers.get('Retry-After');
+    if (header) {
+      const seconds = Number(header);
+      if (Number.isFinite(seconds)) return seconds * 1000;
+      const date = Date.parse(header);
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    if (typeof errorData.retryAfter === 'number') return errorData.retryAfter * 1000;
+    return undefined;
+  }
+
+  /**
+   * Retries with exponential backoff. A 429 pauses the whole queue until the
+   * server's Retry-After has passed; other 4xx errors are not retried.
+   */
+  private handleFailure(frame: SecureVisionFrame, error: unknown) {
+    const status = error instanceof VisionRequestError ? error.status : undefined;
+    const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (frame.attempts - 1));
+    const jitter = Math.random() * backoff * 0.2;
+
+    let delay = backoff + jitter;
+    if (status === 429) {
+      this.counters.rateLimited++;
+      const retryAfterMs = (error as VisionRequestError).retryAfterMs;
+      delay = Math.max(delay, retryAfterMs ?? 0);
+    }
+
+    const retryable = status === undefined || status === 429 || status >= 500;
+    const supersededByNewerFrame = frame.priority !== 'high'
+      && this.frameQueue.some(f => f.priority !== 'high' && f.timestamp > frame.timestamp);
+
+    if (!retryable || frame.attempts > MAX_RETRIES || supersededByNewerFrame) {
+      this.dropFrame(frame);
+      if (!retryable) this.onRequestError?.(error as VisionRequestError);
+      return;
+    }
+
+    this.counters.retried++;
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay);
+    this.frameQueue.unshift(frame);
+  }
+
+  private isSignificantChange(newDescription: string, reference = this.currentDescription): boolean {
+    if (!reference) return true;
+
+    const currentWords = new Set(reference.toLowerCase().split(' '));
     const newWords = new Set(newDescription.toLowerCase().split(' '));
-    
+
     const intersection = new Set([...currentWords].filter(x => newWords.has(x)));
     const similarity = intersection.size / Math.max(currentWords.size, newWords.size);
-    
+
     return similarity < 0.7;
   }
 
-  private updateMetrics(processingTime: number, success: boolean) {
-    this.avgProcessingTime = this.avgProcessingTime * 0.8 + processingTime * 0.2;
+  /**
+   * `processingTime` is null for cached replies: they skip the provider, and
+   * counting them would speed capture up past what it can actually serve.
+   */
+  private updateMetrics(processingTime: number | null, success: boolean) {
+    if (processingTime !== null) {
+      this.avgProcessingTime = this.avgProcessingTime * 0.8 + processingTime * 0.2;
+    }
     this.successRate = this.successRate * 0.9 + (success ? 1 : 0) * 0.1;
+    this.capture.update({ avgProcessingTime: this.avgProcessingTime, successRate: this.successRate });
   }
 
   // Public interface methods
@@ -157,6 +698,32 @@ export class SecureVisionProcessor {
     return this.currentDescription;
   }
 
+  /** Session used for /api/vision, for other routes that need the same token. */
+  getSessionClient(): SessionClient {
+    return this.session;
+  }
+
+  /**
+   * Adaptive capture settings. Callers size and compress frames with
+   * `getSettings()` and report scene-change checks to it.
+   */
+  getCaptureController(): AdaptiveCaptureController {
+    return this.capture;
+  }
+
+  /** Mode used for background frames and for user requests that don't pick one. */
+  setMode(mode: VisionModeId) {
+    this.mode = mode;
+  }
+
+  getMode(): VisionModeId {
+    return this.mode;
+  }
+
+  getCurrentScene(): StructuredScene | null {
+    return this.currentScene;
+  }
+
   isProcessing(): boolean {
     return this.isBackgroundProcessing;
   }
@@ -166,28 +733,169 @@ export class SecureVisionProcessor {
   }
 
   getPerformanceMetrics() {
+    const countByPriority = (priority: FramePriority) =>
+      this.frameQueue.filter(f => f.priority === priority).length;
+
     return {
       avgProcessingTime: Math.round(this.avgProcessingTime),
       successRate: Math.round(this.successRate * 100),
       queueLength: this.frameQueue.length,
-      lastUpdate: this.lastSignificantChange
+      lastUpdate: this.lastSignificantChange,
+      queue: {
+        high: countByPriority('high'),
+        medium: countByPriority('medium'),
+        low: countByPriority('low'),
+        inFlight: this.inFlight
+          ? { id: this.inFlight.frame.id, priority: this.inFlight.frame.priority, startedAt: this.inFlight.startedAt }
+          : null,
+        backoffUntil: this.backoffUntil > Date.now() ? this.backoffUntil : 0,
+        ...this.counters
+      },
+      capture: this.capture.getDecision(),
+      usage: this.getUsage(),
+      budgetState: this.budgetState
     };
   }
 
-  async forceAnalysis(imageBase64: string, userPrompt: string): Promise<string> {
-    const frame: SecureVisionFrame = {
-      id: `force_${Date.now()}`,
-      imageData: imageBase64,
-      timestamp: Date.now(),
-      priority: 'high',
-      userPrompt
+  /**
+   * Describes a still photo (JPEG, PNG or WebP) uploaded as multipart form
+   * data. Bypasses the frame queue and does not change the current
+   * description; meant for analysis outside a call. Rejected once the
+   * budget is spent, like every other request.
+   */
+  async describeImageFile(file: Blob, mode: VisionModeId = this.mode, question?: string): Promise<VisionResponse> {
+    if (this.budgetState === 'paused') {
+      throw new VisionRequestError('The vision budget for this call is spent.', undefined, undefined, 'budget_paused');
+    }
+
+    const form = new FormData();
+    form.append('image', file);
+    form.append('mode', mode);
+    form.append('structured', String(this.structured));
+    if (question) form.append('question', question);
+
+    const response = await this.session.fetch('/api/vision', { method: 'POST', body: form });
+    if (!response.ok) {
+      throw await this.toRequestError(response);
+    }
+    const result: VisionResponse = await response.json();
+    this.recordUsage(result.usage);
+    return result;
+  }
+
+  /**
+   * `describeImageFile` for base64 JPEG data, such as a cropped region.
+   * The reply goes to the caller only: subscribers, the current description
+   * and the delta reference are left alone.
+   */
+  describeImageData(imageBase64: string, mode: VisionModeId = this.mode, question?: string): Promise<VisionResponse> {
+    const bytes = Uint8Array.from(atob(imageBase64), char => char.charCodeAt(0));
+    return this.describeImageFile(new Blob([bytes], { type: 'image/jpeg' }), mode, question);
+  }
+
+  /**
+   * Adds a request's usage to the session totals and moves the budget
+   * state: past `throttleAt` of a cap background frames slow down, at the
+   * cap all vision requests stop. Also used for other routes that spend
+   * tokens on the session's behalf, such as memory summaries.
+   */
+  recordUsage(report?: UsageReport) {
+    if (!report) return;
+
+    this.usage = {
+      requests: this.usage.requests + 1,
+      inputTokens: this.usage.inputTokens + report.inputTokens,
+      outputTokens: this.usage.outputTokens + report.outputTokens,
+      totalTokens: this.usage.totalTokens + report.totalTokens,
+      costUsd: this.usage.costUsd + report.costUsd
     };
 
-    await this.processFrameInBackground(frame);
-    return this.currentDescription;
+    const { maxTokens, maxCostUsd, throttleAt = 0.8 } = this.budget;
+    const spent = Math.max(
+      maxTokens ? this.usage.totalTokens / maxTokens : 0,
+      maxCostUsd ? this.usage.costUsd / maxCostUsd : 0
+    );
+    this.setBudgetState(spent >= 1 ? 'paused' : spent >= throttleAt ? 'throttled' : 'ok');
+    this.onUsageChange?.(this.getUsage(), this.budgetState);
+  }
+
+  getUsage(): UsageTotals {
+    return { ...this.usage };
+  }
+
+  getBudgetState(): BudgetState {
+    return this.budgetState;
+  }
+
+  /** Starts a new accounting session, e.g. when a call starts. */
+  resetUsage() {
+    this.usage = { ...EMPTY_USAGE };
+    this.setBudgetState('ok');
+    this.onUsageChange?.(this.getUsage(), this.budgetState);
+  }
+
+  private setBudgetState(state: BudgetState) {
+    if (state === this.budgetState) return;
+    this.budgetState = state;
+    this.capture.setIntervalFloor(state === 'throttled' ? this.budget.throttledIntervalMs ?? 10000 : 0);
+
+    if (state === 'paused') {
+      this.inFlight?.controller.abort();
+      this.frameQueue.forEach(frame => this.dropFrame(frame));
+      this.frameQueue = [];
+    }
+  }
+
+  /**
+   * Drops queued background frames and cancels one in flight, e.g. while the
+   * page is hidden. User requests are kept.
+   */
+  dropBackgroundFrames() {
+    if (this.inFlight && this.inFlight.frame.priority !== 'high') {
+      this.inFlight.controller.abort();
+    }
+    this.frameQueue = this.frameQueue.filter(frame => {
+      if (frame.priority === 'high') return true;
+      this.dropFrame(frame);
+      return false;
+    });
+  }
+
+  /**
+   * Runs a high-priority analysis ahead of queued background frames,
+   * preempting one that is in flight. Resolves with the new description, or
+   * null if the budget is spent or the request is cancelled or ultimately
+   * fails, so callers never mistake the previous scene for a fresh read.
+   */
+  forceAnalysis(imageBase64: string, question?: string, mode: VisionModeId = this.mode): Promise<string | null> {
+    return new Promise(resolve => {
+      if (this.destroyed || this.budgetState === 'paused') {
+        resolve(null);
+        return;
+      }
+
+      this.enqueueFrame({
+        id: `force_${Date.now()}`,
+        imageData: imageBase64,
+        timestamp: Date.now(),
+        priority: 'high',
+        mode,
+        question,
+        attempts: 0,
+        resolve
+      });
+    });
   }
 
   destroy() {
+    this.destroyed = true;
+    if (this.schedulerTimer) clearTimeout(this.schedulerTimer);
+    this.schedulerTimer = null;
+    this.inFlight?.controller.abort();
+    this.frameQueue.forEach(frame => frame.resolve?.(null));
     this.frameQueue = [];
+    this.listeners.clear();
   }
-} 
\ No newline at end of file
+}
+
+export type PerformanceMetrics = ReturnType<SecureVisionProcessor['getPerformanceMetrics']>;
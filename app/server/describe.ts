@@ -0,0 +1,81 @@
+import { StructuredScene } from "@/app/vision-types";
+import { PreviousFrame, TokenUsage, VisionImage, getVisionProvider } from "./providers";
+import { extractJsonChanges, splitChanges } from "./scene-changes";
+import { parseStructuredScene } from "./structured-scene";
+import { addUsage } from "./usage";
+import { VisionPreset, buildVisionPrompt } from "./vision-presets";
+
+export interface DescribeImageOptions {
+  preset: VisionPreset;
+  image: VisionImage;
+  question?: string;
+  structured?: boolean;
+  previous?: PreviousFrame;
+  /** Earlier frames of a burst, oldest first; `image` is the latest. */
+  sequence?: VisionImage[];
+  /** Roughly how far apart the burst frames were taken. */
+  frameIntervalMs?: number;
+}
+
+export interface DescribeImageResult {
+  description: string;
+  scene: StructuredScene | null;
+  /** What changed since `previous`; null when nothing did or none was sent. */
+  changes: string | null;
+  /** Tokens used, including a failed structured attempt before the prose retry. */
+  usage?: TokenUsage;
+}
+
+/**
+ * Runs a preset against the configured provider. Structured requests whose
+ * reply fails validation are retried as prose. Bursts describe the action
+ * across the sequence and are always prose.
+ */
+export async function describeImage(options: DescribeImageOptions): Promise<DescribeImageResult> {
+  const { preset, image, question, previous, sequence } = options;
+  let structuredUsage: TokenUsage | undefined;
+
+  if (sequence?.length) {
+    const burst = { frames: sequence.length + 1, intervalMs: options.frameIntervalMs };
+    const { prompt, generation } = buildVisionPrompt(preset, { structured: false, question, burst });
+    const result = await getVisionProvider().describe({ prompt, image, generation, sequence });
+    return { description: result.text, scene: null, changes: null, usage: result.usage };
+  }
+
+  if (options.structured) {
+    const { prompt, generation } = buildVisionPrompt(preset, { structured: true, question, previous });
+    const result = await getVisionProvider().describe({
+      prompt,
+      image,
+      generation,
+      responseFormat: "json",
+      previous
+    });
+
+    const scene = parseStructuredScene(result.text);
+    if (scene) {
+      return {
+        description: scene.summary,
+        scene,
+        changes: previous ? extractJsonChanges(result.text) : null,
+        usage: result.usage
+      };
+    }
+    console.warn('Structured vision reply failed validation, falling back to prose');
+    structuredUsage = result.usage;
+  }
+
+  const { prompt, generation } = buildVisionPrompt(preset, { structured: false, question, previous });
+  const result = await getVisionProvider().describe({
+    prompt,
+    image,
+    generation,
+    previous
+  });
+  const usage = addUsage(structuredUsage, result.usage);
+
+  if (previous) {
+    return { ...splitChanges(result.text), scene: null, usage };
+  }
+  return { description: result.text, scene: null, changes: null, usage };
+}
@@ -0,0 +1,72 @@
+import { VisionImage } from "./providers";
+
+/**
+ * Latest frame per Vapi call, pushed by the browser so the tool webhook can
+ * look at the scene when the assistant calls a vision tool server-side.
+ * In-memory, so the webhook must be served by the same instance.
+ */
+export interface StoredFrame {
+  /** Validated by `intakeImage`. */
+  image: VisionImage;
+  /**
+   * The session that first pushed a frame for the call; only it may replace
+   * the frame. Refreshed tokens keep their session id, so the binding holds
+   * for the whole session.
+   */
+  sessionId: string;
+  mirrored: boolean;
+  timestamp: number;
+}
+
+const FRAME_TTL_MS = 5 * 60 * 1000;
+const MAX_CALLS = 500;
+// Bound on the base64 held across all calls, so uploads can't grow memory
+// without limit.
+const MAX_TOTAL_BYTES = 64 * 1024 * 1024;
+
+// The frame and tools routes share frames, so the store must outlive the
+// per-route module copies Next makes in development.
+const globalForFrames = globalThis as typeof globalThis & {
+  vapiFrames?: { frames: Map<string, StoredFrame>; totalBytes: number };
+};
+const store = (globalForFrames.vapiFrames ??= { frames: new Map(), totalBytes: 0 });
+
+function remove(callId: string) {
+  const frame = store.frames.get(callId);
+  if (!frame) return;
+  store.totalBytes -= frame.image.data.length;
+  store.frames.delete(callId);
+}
+
+/**
+ * Stores the call's latest frame. Returns false, storing nothing, when the
+ * call is bound to a different session.
+ */
+export function storeFrame(callId: string, frame: StoredFrame): boolean {
+  const existing = getFrame(callId);
+  if (existing && existing.sessionId !== frame.sessionId) return false;
+
+  remove(callId);
+  store.frames.set(callId, frame);
+  store.totalBytes += frame.image.data.length;
+
+  // Map iteration order is insertion order, so the first keys are the
+  // least recently updated.
+  for (const [key, value] of store.frames) {
+    if (store.frames.size <= MAX_CALLS && store.totalBytes <= MAX_TOTAL_BYTES
+      && Date.now() - value.timestamp < FRAME_TTL_MS) break;
+    if (key === callId) break;
+    remove(key);
+  }
+  return true;
+}
+
+export function getFrame(callId: string): StoredFrame | null {
+  const frame = store.frames.get(callId);
+  if (!frame) return null;
+  if (Date.now() - frame.timestamp >= FRAME_TTL_MS) {
+    remove(callId);
+    return null;
+  }
+  return frame;
+}
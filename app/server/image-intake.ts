@@ -0,0 +1,194 @@
+import { VisionImage } from "./providers";
+
+export type ImageMimeType = "image/jpeg" | "image/png" | "image/webp";
+
+export type ImageIntakeErrorCode = "image_too_large" | "unsupported_image_type" | "corrupt_image";
+
+export class ImageIntakeError extends Error {
+  code: ImageIntakeErrorCode;
+  status: number;
+
+  constructor(code: ImageIntakeErrorCode, message: string, status: number) {
+    super(message);
+    this.name = "ImageIntakeError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+export const imageIntakeConfig = {
+  /** Decoded size limit for one image. */
+  maxBytes: readPositiveInt(process.env.VISION_MAX_IMAGE_BYTES, 4 * 1024 * 1024),
+  /** Images wider or taller than this are rejected outright. */
+  maxDimension: 8192,
+  /** When set, larger images are downscaled to fit before reaching the provider. */
+  downscaleTo: readPositiveInt(process.env.VISION_DOWNSCALE_MAX_DIMENSION, 0)
+};
+
+/** Identifies JPEG, PNG and WebP from their leading bytes. */
+export function sniffImageType(bytes: Uint8Array): ImageMimeType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (bytes.length >= 8 && [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((b, i) => bytes[i] === b)) {
+    return "image/png";
+  }
+  if (bytes.length >= 12
+    && String.fromCharCode(...bytes.subarray(0, 4)) === "RIFF"
+    && String.fromCharCode(...bytes.subarray(8, 12)) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+/**
+ * Reads the pixel size from the image header. Returns null when the header
+ * is truncated or inconsistent, which is how corrupt uploads are caught
+ * without decoding the whole image.
+ */
+export function readImageDimensions(
+  bytes: Buffer,
+  type: ImageMimeType
+): { width: number; height: number } | null {
+  try {
+    if (type === "image/png") {
+      if (bytes.toString("ascii", 12, 16) !== "IHDR") return null;
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+
+    if (type === "image/webp") {
+      if (bytes.readUInt32LE(4) + 8 > bytes.length) return null;
+      const chunk = bytes.toString("ascii", 12, 16);
+      if (chunk === "VP8 ") {
+        return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = bytes.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") {
+        return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+      }
+      return null;
+    }
+
+    // JPEG: walk the segments to the first start-of-frame marker.
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      const length = bytes.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Rejects an image by its size, before reading it where possible. */
+export function assertImageSize(bytes: number, label = "Image") {
+  if (bytes > imageIntakeConfig.maxBytes) {
+    throw new ImageIntakeError(
+      "image_too_large",
+      `${label} is ${Math.round(bytes / 1024)} KB; the limit is ${Math.round(imageIntakeConfig.maxBytes / 1024)} KB`,
+      413
+    );
+  }
+}
+
+/**
+ * Validates an uploaded image and labels it with its real type. Throws
+ * `ImageIntakeError` with 413 for oversized images and 415 for anything
+ * that is not a readable JPEG, PNG or WebP. Downscales when
+ * `VISION_DOWNSCALE_MAX_DIMENSION` is set.
+ */
+export async function intakeImage(input: string | Buffer, label = "Image"): Promise<VisionImage> {
+  if (typeof input === "string") {
+    // Base64 is 4/3 the decoded size; check before allocating the buffer.
+    assertImageSize(Math.floor(input.length * 3 / 4), label);
+  }
+
+  const base64 = typeof input === "string" ? input.replace(/^data:[^;,]+;base64,/, "") : null;
+  if (base64 !== null && !/^[A-Za-z0-9+/_-]*={0,2}$/.test(base64)) {
+    throw new ImageIntakeError("corrupt_image", `${label} is not valid base64`, 415);
+  }
+
+  const bytes = base64 !== null ? Buffer.from(base64, "base64") : input as Buffer;
+  assertImageSize(bytes.length, label);
+
+  const mimeType = sniffImageType(bytes);
+  if (!mimeType) {
+    throw new ImageIntakeError("unsupported_image_type", `${label} must be a JPEG, PNG or WebP image`, 415);
+  }
+
+  const dimensions = readImageDimensions(bytes, mimeType);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new ImageIntakeError("corrupt_image", `${label} could not be read; the file may be truncated or corrupt`, 415);
+  }
+  if (Math.max(dimensions.width, dimensions.height) > imageIntakeConfig.maxDimension) {
+    throw new ImageIntakeError(
+      "image_too_large",
+      `${label} is ${dimensions.width}×${dimensions.height}; the limit is ${imageIntakeConfig.maxDimension} pixels per side`,
+      413
+    );
+  }
+
+  const maxSide = imageIntakeConfig.downscaleTo;
+  if (maxSide && Math.max(dimensions.width, dimensions.height) > maxSide) {
+    const resized = await downscale(bytes, mimeType, maxSide);
+    if (resized) return resized;
+  }
+
+  return { data: base64 ?? bytes.toString("base64"), mimeType };
+}
+
+let sharpModule: Promise<typeof import("sharp") | null> | null = null;
+
+/**
+ * Loads sharp, which ships with Next.js for image optimisation, or resolves
+ * null when it is not installed.
+ */
+export function loadSharp(): Promise<typeof import("sharp") | null> {
+  sharpModule ??= import("sharp").then(module => module.default, () => null);
+  return sharpModule;
+}
+
+let warnedNoSharp = false;
+
+/** Without sharp, images are passed through at full size. */
+async function downscale(bytes: Buffer, mimeType: ImageMimeType, maxSide: number): Promise<VisionImage | null> {
+  const sharp = await loadSharp();
+  if (!sharp) {
+    if (!warnedNoSharp) {
+      warnedNoSharp = true;
+      console.warn("VISION_DOWNSCALE_MAX_DIMENSION is set but sharp is not installed; images are not downscaled");
+    }
+    return null;
+  }
+
+  try {
+    const pipeline = sharp(bytes).rotate().resize(maxSide, maxSide, { fit: "inside", withoutEnlargement: true });
+    const output = mimeType === "image/png"
+      ? await pipeline.png().toBuffer()
+      : mimeType === "image/webp"
+        ? await pipeline.webp({ quality: 85 }).toBuffer()
+        : await pipeline.jpeg({ quality: 85 }).toBuffer();
+    return { data: output.toString("base64"), mimeType };
+  } catch {
+    throw new ImageIntakeError("corrupt_image", "Image could not be decoded", 415);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * In-process metrics, rendered in the Prometheus text exposition format by
+ * /api/metrics. Counts are per server instance and reset on restart; with
+ * several instances, scrape each one.
+ */
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}="${escapeLabel(labels[key])}"`).join(",");
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+class Counter {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => series(this.name, key, value))
+    ];
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, { counts, sum, count }] of this.values) {
+      const prefix = key ? `${key},` : "";
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${count}`);
+      lines.push(series(`${this.name}_sum`, key, Math.round(sum * 1e6) / 1e6));
+      lines.push(series(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+function createRegistry() {
+  const registry = {
+    requests: new Counter("vision_http_requests_total", "Requests handled by the vision API routes, by route and response status."),
+    duration: new Histogram(
+      "vision_http_request_duration_seconds",
+      "Time from receiving a request to finishing its response, including the full stream for SSE.",
+      [0.1, 0.25, 0.5, 1, 2, 4, 8, 15, 30]
+    ),
+    quotaErrors: new Counter("vision_upstream_quota_errors_total", "Requests the vision provider rejected with 429."),
+    rateLimited: new Counter("vision_rate_limit_rejections_total", "Requests rejected by the local rate limiter, by limiter and reason."),
+    cache: new Counter("vision_cache_lookups_total", "Cacheable vision requests by outcome: hit, coalesced or miss.")
+  };
+  // Expose the unlabelled counter as 0 before the first error.
+  registry.quotaErrors.inc({}, 0);
+  return registry;
+}
+
+// Route bundles can each get their own copy of this module (they do in
+// development), so the registry lives on globalThis to be shared by all.
+const globalForMetrics = globalThis as typeof globalThis & { visionMetrics?: ReturnType<typeof createRegistry> };
+const registry = (globalForMetrics.visionMetrics ??= createRegistry());
+
+/**
+ * Starts timing a request. Call the returned function once with the final
+ * status; later calls are ignored, so error paths can call it defensively.
+ */
+export function startRequestTimer(route: string): (status: number) => void {
+  const startedAt = performance.now();
+  let ended = false;
+  return status => {
+    if (ended) return;
+    ended = true;
+    registry.requests.inc({ route, status: String(status) });
+    registry.duration.observe({ route }, (performance.now() - startedAt) / 1000);
+  };
+}
+
+export function recordUpstreamQuotaError() {
+  registry.quotaErrors.inc();
+}
+
+export function recordRateLimitRejection(limiter: string, reason: string) {
+  registry.rateLimited.inc({ limiter, reason });
+}
+
+export function recordCacheLookup(result: string) {
+  registry.cache.inc({ result });
+}
+
+export function renderMetrics(): string {
+  return [
+    ...registry.requests.render(),
+    ...registry.duration.render(),
+    ...registry.quotaErrors.render(),
+    ...registry.rateLimited.render(),
+    ...registry.cache.render()
+  ].join("\n") + "\n";
+}
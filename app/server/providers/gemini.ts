@@ -0,0 +1,82 @@
+import { GoogleGenerativeAI, UsageMetadata } from "@google/generative-ai";
+import {
+  TextRequest,
+  TokenUsage,
+  VisionProvider,
+  VisionProviderError,
+  VisionRequest,
+  VisionResult,
+  VisionStreamChunk,
+  requestImages
+} from "./types";
+
+function toTokenUsage(metadata?: UsageMetadata): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount ?? 0
+  };
+}
+
+export class GeminiVisionProvider implements VisionProvider {
+  readonly name = "gemini";
+  private genAI: GoogleGenerativeAI;
+  private modelName: string;
+
+  constructor(options: { apiKey: string; model: string }) {
+    if (!options.apiKey) {
+      throw new VisionProviderError("GOOGLE_API_KEY is not set");
+    }
+    this.genAI = new GoogleGenerativeAI(options.apiKey);
+    this.modelName = options.model;
+  }
+
+  async describe(request: VisionRequest): Promise<VisionResult> {
+    const result = await this.getModel(request).generateContent(
+      this.buildContents(request),
+      request.signal ? { signal: request.signal } : undefined
+    );
+    return { text: result.response.text(), usage: toTokenUsage(result.response.usageMetadata) };
+  }
+
+  async *describeStream(request: VisionRequest): AsyncIterable<VisionStreamChunk> {
+    const result = await this.getModel(request).generateContentStream(
+      this.buildContents(request),
+      request.signal ? { signal: request.signal } : undefined
+    );
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield { text };
+    }
+    const usage = toTokenUsage((await result.response).usageMetadata);
+    if (usage) yield { text: "", usage };
+  }
+
+  async complete(request: TextRequest): Promise<VisionResult> {
+    const result = await this.getModel(request).generateContent(request.prompt);
+    return { text: result.response.text(), usage: toTokenUsage(result.response.usageMetadata) };
+  }
+
+  private getModel(request: TextRequest & Pick<VisionRequest, "responseFormat">) {
+    return this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        ...request.generation,
+        ...(request.responseFormat === "json" ? { responseMimeType: "application/json" } : {})
+      }
+    });
+  }
+
+  private buildContents(request: VisionRequest) {
+    return [
+      request.prompt,
+      ...requestImages(request).map(image => ({
+        inlineData: {
+          data: image.data,
+          mimeType: image.mimeType
+        }
+      }))
+    ];
+  }
+}
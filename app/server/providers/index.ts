@@ -0,0 +1,56 @@
+import { GeminiVisionProvider } from "./gemini";
+import { MockVisionProvider } from "./mock";
+import { OpenAICompatibleVisionProvider } from "./openai-compatible";
+import { VisionProvider, VisionProviderError, VisionRequest, VisionStreamChunk } from "./types";
+
+export * from "./types";
+
+let cachedProvider: VisionProvider | null = null;
+
+function createVisionProvider(name: string): VisionProvider {
+  switch (name) {
+    case "gemini":
+      return new GeminiVisionProvider({
+        apiKey: process.env.GOOGLE_API_KEY ?? "",
+        model: process.env.GEMINI_MODEL || "gemini-2.0-flash-lite"
+      });
+    case "openai":
+      return new OpenAICompatibleVisionProvider({
+        baseUrl: process.env.OPENAI_COMPAT_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.OPENAI_COMPAT_MODEL || "llava",
+        apiKey: process.env.OPENAI_COMPAT_API_KEY
+      });
+    case "mock":
+      return new MockVisionProvider();
+    default:
+      throw new VisionProviderError(`Unknown VISION_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * Returns the provider selected by `VISION_PROVIDER` (defaults to Gemini).
+ * Created on first use rather than at module load so a missing key only
+ * fails the requests that need it.
+ */
+export function getVisionProvider(): VisionProvider {
+  if (!cachedProvider) {
+    cachedProvider = createVisionProvider((process.env.VISION_PROVIDER || "gemini").toLowerCase());
+  }
+  return cachedProvider;
+}
+
+/**
+ * Streams from providers that support it and otherwise yields the complete
+ * description as a single chunk.
+ */
+export async function* streamDescription(
+  provider: VisionProvider,
+  request: VisionRequest
+): AsyncIterable<VisionStreamChunk> {
+  if (provider.describeStream) {
+    yield* provider.describeStream(request);
+    return;
+  }
+  const result = await provider.describe(request);
+  yield { text: result.text, usage: result.usage };
+}
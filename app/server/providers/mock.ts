@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { StructuredScene } from "@/app/vision-types";
+import { TextRequest, TokenUsage, VisionProvider, VisionRequest, VisionResult, VisionStreamChunk, requestImages } from "./types";
+
+const MOCK_SCENES: StructuredScene[] = [
+  {
+    summary: "A person sits at a desk in front of a laptop showing a code editor. A white mug stands to the left of the keyboard.",
+    objects: [{ name: "laptop" }, { name: "mug", details: "white" }, { name: "keyboard" }],
+    text: [],
+    peopleCount: 1,
+    screens: [{ kind: "code", description: "Code editor with a TypeScript file open", code: "export function add(a: number, b: number) {\n  return a + b;\n}", language: "typescript" }]
+  },
+  {
+    summary: "A whiteboard with handwritten text: 'Sprint goals' above three bullet points. A marker rests on the tray.",
+    objects: [{ name: "whiteboard" }, { name: "marker" }],
+    text: [{ content: "Sprint goals", location: "whiteboard" }],
+    peopleCount: 0,
+    screens: []
+  },
+  {
+    summary: "A hand holds a paperback book titled 'The Pragmatic Programmer'. A bookshelf is visible in the background.",
+    objects: [{ name: "book", details: "paperback" }, { name: "bookshelf" }],
+    text: [{ content: "The Pragmatic Programmer", location: "book cover" }],
+    peopleCount: 1,
+    screens: []
+  },
+  {
+    summary: "Two people stand in a kitchen. One pours coffee from a French press into a blue cup.",
+    objects: [{ name: "French press" }, { name: "cup", details: "blue" }],
+    text: [],
+    peopleCount: 2,
+    screens: []
+  },
+  {
+    summary: "A cereal box on a table with the label 'Whole Grain Oats, 12 oz'. A spoon lies beside it.",
+    objects: [{ name: "cereal box" }, { name: "spoon" }, { name: "table" }],
+    text: [{ content: "Whole Grain Oats, 12 oz", location: "cereal box label" }],
+    peopleCount: 0,
+    screens: []
+  }
+];
+
+// Rough counts in the shape real backends report, so usage accounting can
+// be exercised offline: ~4 characters per token, 258 tokens per image.
+function estimateUsage(prompt: string, output: string, images: number): TokenUsage {
+  const inputTokens = Math.ceil(prompt.length / 4) + images * 258;
+  const outputTokens = Math.ceil(output.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Deterministic provider for CI and offline development: the same image
+ * always yields the same description, and no network call is made.
+ */
+export class MockVisionProvider implements VisionProvider {
+  readonly name = "mock";
+
+  async describe(request: VisionRequest): Promise<VisionResult> {
+    if (request.sequence?.length) {
+      const text = this.describeSequence(request);
+      return { text, usage: estimateUsage(request.prompt, text, requestImages(request).length) };
+    }
+
+    const scene = this.pickScene(request.image.data);
+    const changes = request.previous ? this.describeChanges(request, scene) : undefined;
+
+    const text = request.responseFormat === "json"
+      ? JSON.stringify(changes === undefined ? scene : { ...scene, changes })
+      : changes === undefined ? scene.summary : `${scene.summary}\nChanges: ${changes}`;
+    return { text, usage: estimateUsage(request.prompt, text, requestImages(request).length) };
+  }
+
+  async *describeStream(request: VisionRequest): AsyncIterable<VisionStreamChunk> {
+    const { text, usage } = await this.describe(request);
+    // Word-sized chunks with a short pause, to exercise streaming clients.
+    for (const chunk of text.match(/\S+\s*/g) ?? []) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      request.signal?.throwIfAborted();
+      yield { text: chunk };
+    }
+    yield { text: "", usage };
+  }
+
+  async complete(request: TextRequest): Promise<VisionResult> {
+    // Echo the first sentence of each input line so summaries stay predictable.
+    const lines = request.prompt.split("\n").filter(line => line.startsWith("- "));
+    const summary = lines.map(line => line.slice(2).split(/(?<=[.!?])\s/)[0]).join(" ");
+    const text = summary || "Nothing notable was seen.";
+    return { text, usage: estimateUsage(request.prompt, text, 0) };
+  }
+
+  private describeSequence(request: VisionRequest): string {
+    const frames = requestImages(request).length;
+    const first = this.pickScene(request.sequence![0].data).summary;
+    const last = this.pickScene(request.image.data).summary;
+    return first === last
+      ? `Over ${frames} moments nothing moves noticeably. ${last}`
+      : `Over ${frames} moments the view moves on. It starts with: ${first} It ends with: ${last}`;
+  }
+
+  private pickScene(imageData: string): StructuredScene {
+    const digest = createHash("sha256").update(imageData).digest();
+    return MOCK_SCENES[digest[0] % MOCK_SCENES.length];
+  }
+
+  private describeChanges(request: VisionRequest, scene: StructuredScene): string {
+    const previous = request.previous?.image
+      ? this.pickScene(request.previous.image.data).summary
+      : request.previous?.description;
+    return previous === scene.summary ? "None" : `The view changed to: ${scene.summary.split(/(?<=[.!?])\s/)[0]}`;
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  TextRequest,
+  TokenUsage,
+  VisionProvider,
+  VisionProviderError,
+  VisionRequest,
+  VisionResult,
+  VisionStreamChunk,
+  requestImages
+} from "./types";
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function toTokenUsage(usage?: ChatCompletionUsage | null): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const inputTokens = usage.prompt_tokens ?? 0;
+  const outputTokens = usage.completion_tokens ?? 0;
+  return { inputTokens, outputTokens, totalTokens: usage.total_tokens ?? inputTokens + outputTokens };
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat-completions API with image
+ * inputs, e.g. Ollama (`/v1`), llama.cpp server or vLLM.
+ */
+export class OpenAICompatibleVisionProvider implements VisionProvider {
+  readonly name = "openai";
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+  }
+
+  async describe(request: VisionRequest): Promise<VisionResult> {
+    return this.completeChat(request);
+  }
+
+  async complete(request: TextRequest): Promise<VisionResult> {
+    return this.completeChat(request);
+  }
+
+  private async completeChat(request: TextRequest & Partial<VisionRequest>): Promise<VisionResult> {
+    const response = await this.post(request, false);
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (typeof text !== "string") {
+      throw new VisionProviderError("Chat completions response contained no message content");
+    }
+
+    return { text: text.trim(), usage: toTokenUsage(data.usage) };
+  }
+
+  async *describeStream(request: VisionRequest): AsyncIterable<VisionStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new VisionProviderError("Chat completions stream has no body");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload) continue;
+        if (payload === "[DONE]") return;
+
+        const chunk: ChatCompletionChunk = JSON.parse(payload);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield { text };
+        // Sent in a final chunk with empty choices when include_usage is set.
+        const usage = toTokenUsage(chunk.usage);
+        if (usage) yield { text: "", usage };
+      }
+    }
+  }
+
+  private async post(request: TextRequest & Partial<VisionRequest>, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        max_tokens: request.generation.maxOutputTokens,
+        temperature: request.generation.temperature,
+        top_p: request.generation.topP,
+        ...(request.responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+        messages: [
+          {
+            role: "user",
+            content: request.image
+              ? [
+                  { type: "text", text: request.prompt },
+                  ...requestImages(request as VisionRequest).map(image => ({
+                    type: "image_url",
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+                  }))
+                ]
+              : request.prompt
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new VisionProviderError(
+        `Chat completions request failed: ${response.status} ${body}`.trim(),
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
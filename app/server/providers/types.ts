@@ -0,0 +1,91 @@
+export interface GenerationSettings {
+  maxOutputTokens: number;
+  temperature: number;
+  topP: number;
+}
+
+export interface VisionImage {
+  data: string;
+  mimeType: string;
+}
+
+/** Prior state a client can send so the reply also says what changed. */
+export interface PreviousFrame {
+  description?: string;
+  image?: VisionImage;
+}
+
+export interface VisionRequest {
+  prompt: string;
+  image: VisionImage;
+  generation: GenerationSettings;
+  /** "json" asks the backend for a JSON-only reply where it supports it. */
+  responseFormat?: "text" | "json";
+  /**
+   * Previous frame to compare against. The prompt already describes it;
+   * providers send `previous.image` ahead of `image`.
+   */
+  previous?: PreviousFrame;
+  /**
+   * Earlier frames of a burst, oldest first; `image` is the latest. The
+   * prompt says how many frames there are.
+   */
+  sequence?: VisionImage[];
+  /** Aborts the upstream call, e.g. when a streaming client disconnects. */
+  signal?: AbortSignal;
+}
+
+/** Every image of a request in the order providers send them. */
+export function requestImages(request: VisionRequest): VisionImage[] {
+  return [
+    ...(request.previous?.image ? [request.previous.image] : []),
+    ...(request.sequence ?? []),
+    request.image
+  ];
+}
+
+/** Text-only generation, used for summarising visual memory. */
+export interface TextRequest {
+  prompt: string;
+  generation: GenerationSettings;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface VisionResult {
+  text: string;
+  /** Token counts reported by the backend, when it reports them. */
+  usage?: TokenUsage;
+}
+
+/** Streamed text; the final chunk may carry only `usage`. */
+export interface VisionStreamChunk {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface VisionProvider {
+  readonly name: string;
+  describe(request: VisionRequest): Promise<VisionResult>;
+  /** Yields text chunks as they are generated. Optional; see `streamDescription`. */
+  describeStream?(request: VisionRequest): AsyncIterable<VisionStreamChunk>;
+  complete(request: TextRequest): Promise<VisionResult>;
+}
+
+/**
+ * Upstream failure carrying the HTTP status reported by the backend, so the
+ * route can map quota errors (429) the same way for every provider.
+ */
+export class VisionProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "VisionProviderError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,276 @@
+import { NextRequest } from "next/server";
+import { recordRateLimitRejection } from "./metrics";
+
+/**
+ * Key/value storage for limiter state. The in-memory store is enough for a
+ * single server; multi-instance deployments can plug in an adapter over a
+ * shared store (Redis, Upstash, a database) with `setRateLimitStore`.
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  /**
+   * Atomically replaces the value under `key` with `apply(current)` and
+   * returns what was stored; `current` is undefined when the key is missing
+   * or expired. Concurrent updates of one key must not interleave, so shared
+   * adapters need a compare-and-set loop (Redis WATCH/MULTI, a conditional
+   * write) and may call `apply` more than once: it must be pure.
+   */
+  update<T>(key: string, ttlMs: number, apply: (current: T | undefined) => T): Promise<T>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private writesSinceSweep = 0;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.write(key, value, ttlMs);
+  }
+
+  // Reads and writes without awaiting in between, so updates are atomic.
+  async update<T>(key: string, ttlMs: number, apply: (current: T | undefined) => T): Promise<T> {
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? entry.value as T : undefined;
+    const value = apply(current);
+    this.write(key, value, ttlMs);
+    return value;
+  }
+
+  private write(key: string, value: unknown, ttlMs: number) {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    if (++this.writesSinceSweep >= 500) {
+      this.writesSinceSweep = 0;
+      const now = Date.now();
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) this.entries.delete(entryKey);
+      }
+    }
+  }
+}
+
+export interface RateLimitConfig {
+  /** Maximum burst size, i.e. bucket capacity. */
+  capacity: number;
+  /** Milliseconds to refill one token. */
+  refillIntervalMs: number;
+  /** Requests allowed per client per UTC day. */
+  dailyQuota: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  reason?: "burst" | "daily";
+  limit: number;
+  remaining: number;
+  dailyLimit: number;
+  dailyRemaining: number;
+  /** Milliseconds until the next token is available. */
+  resetMs: number;
+  /** Set when the request is rejected. */
+  retryAfterMs?: number;
+}
+
+/**
+ * The identities a request is counted under. The burst bucket can follow a
+ * session while the daily quota follows something the client can't rotate,
+ * such as its IP.
+ */
+export interface RateLimitKeys {
+  burst: string;
+  daily: string;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  /** Whether the update that wrote this state took a token. */
+  taken: boolean;
+}
+
+interface DailyState {
+  used: number;
+  /** Whether the update that wrote this state counted a request. */
+  counted: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function msUntilUtcMidnight(now: number): number {
+  return DAY_MS - (now % DAY_MS);
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    readonly config: RateLimitConfig,
+    private namespace = "default"
+  ) {}
+
+  /**
+   * Takes a token from the burst bucket, then counts the request against the
+   * daily quota. Each step is one atomic store update, so concurrent
+   * requests can't both spend the last token.
+   */
+  async consume(key: string | RateLimitKeys, now = Date.now()): Promise<RateLimitDecision> {
+    const { capacity, refillIntervalMs, dailyQuota } = this.config;
+    const keys = typeof key === "string" ? { burst: key, daily: key } : key;
+    const bucketKey = `${this.namespace}:bucket:${keys.burst}`;
+    const dailyKey = `${this.namespace}:daily:${keys.daily}:${Math.floor(now / DAY_MS)}`;
+
+    const bucket = await this.store.update<BucketState>(bucketKey, capacity * refillIntervalMs, current => {
+      const elapsed = Math.max(0, now - (current?.updatedAt ?? now));
+      const tokens = Math.min(capacity, (current?.tokens ?? capacity) + elapsed / refillIntervalMs);
+      return tokens >= 1
+        ? { tokens: tokens - 1, updatedAt: now, taken: true }
+        : { tokens, updatedAt: now, taken: false };
+    });
+    const { tokens } = bucket;
+
+    const decision = (allowed: boolean, used: number, reason?: "burst" | "daily", retryAfterMs?: number): RateLimitDecision => ({
+      allowed,
+      reason,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      dailyLimit: dailyQuota,
+      dailyRemaining: Math.max(0, dailyQuota - used),
+      resetMs: tokens >= capacity ? 0 : Math.ceil((1 - (tokens % 1)) * refillIntervalMs),
+      retryAfterMs
+    });
+
+    if (!bucket.taken) {
+      recordRateLimitRejection(this.namespace, "burst");
+      const used = (await this.store.get<DailyState>(dailyKey))?.used ?? 0;
+      return decision(false, used, "burst", Math.ceil((1 - tokens) * refillIntervalMs));
+    }
+
+    const daily = await this.store.update<DailyState>(dailyKey, msUntilUtcMidnight(now), current => {
+      const used = current?.used ?? 0;
+      return used < dailyQuota ? { used: used + 1, counted: true } : { used, counted: false };
+    });
+
+    if (!daily.counted) {
+      recordRateLimitRejection(this.namespace, "daily");
+      return decision(false, daily.used, "daily", msUntilUtcMidnight(now));
+    }
+
+    return decision(true, daily.used);
+  }
+}
+
+/**
+ * Standard rate limit headers (IETF draft `RateLimit-*` plus `Retry-After`
+ * on rejections) describing the short-term bucket and the daily quota.
+ */
+export function rateLimitHeaders(decision: RateLimitDecision, config: RateLimitConfig): Record<string, string> {
+  const windowSeconds = Math.ceil((config.capacity * config.refillIntervalMs) / 1000);
+  const headers: Record<string, string> = {
+    "RateLimit-Policy": `${config.capacity};w=${windowSeconds}, ${config.dailyQuota};w=86400`,
+    "RateLimit-Limit": String(decision.limit),
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(Math.ceil(decision.resetMs / 1000))
+  };
+
+  if (decision.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+
+  return headers;
+}
+
+/**
+ * Identifies the caller: bursts are counted per verified session id when the
+ * request carried a valid session token, otherwise per IP. The daily quota
+ * is always per IP, since a client can start as many sessions as the
+ * session limiter lets it.
+ */
+export function getClientKeys(request: NextRequest, sessionId?: string): RateLimitKeys {
+  const ip = `ip:${getClientIp(request)}`;
+  return { burst: sessionId ? `session:${sessionId}` : ip, daily: ip };
+}
+
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || request.headers.get("x-real-ip") || "unknown";
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const visionRateLimitConfig: RateLimitConfig = {
+  capacity: readNumber("VISION_RATE_LIMIT_BURST", 3),
+  refillIntervalMs: readNumber("VISION_RATE_LIMIT_REFILL_MS", 3000),
+  dailyQuota: readNumber("VISION_DAILY_QUOTA", 1000)
+};
+
+export const sessionRateLimitConfig: RateLimitConfig = {
+  capacity: readNumber("SESSION_RATE_LIMIT_BURST", 5),
+  refillIntervalMs: readNumber("SESSION_RATE_LIMIT_REFILL_MS", 60000),
+  dailyQuota: readNumber("SESSION_DAILY_QUOTA", 200)
+};
+
+/**
+ * Text turns of `/api/chat`, per session. Kept apart from the vision bucket,
+ * which background frame analysis keeps close to empty.
+ */
+export const chatRateLimitConfig: RateLimitConfig = {
+  capacity: readNumber("CHAT_RATE_LIMIT_BURST", 5),
+  refillIntervalMs: readNumber("CHAT_RATE_LIMIT_REFILL_MS", 2000),
+  dailyQuota: readNumber("CHAT_DAILY_QUOTA", 2000)
+};
+
+/** Frame uploads for the Vapi tool webhook, per session. */
+export const frameRateLimitConfig: RateLimitConfig = {
+  capacity: readNumber("FRAME_RATE_LIMIT_BURST", 5),
+  refillIntervalMs: readNumber("FRAME_RATE_LIMIT_REFILL_MS", 1000),
+  dailyQuota: readNumber("FRAME_DAILY_QUOTA", 20000)
+};
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+const limiters = new Map<RateLimitConfig, RateLimiter>();
+
+export function setRateLimitStore(adapter: RateLimitStore) {
+  store = adapter;
+  limiters.clear();
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+function getRateLimiter(config: RateLimitConfig, namespace: string): RateLimiter {
+  let limiter = limiters.get(config);
+  if (!limiter) {
+    limiter = new RateLimiter(store, config, namespace);
+    limiters.set(config, limiter);
+  }
+  return limiter;
+}
+
+export function getVisionRateLimiter(): RateLimiter {
+  return getRateLimiter(visionRateLimitConfig, "vision");
+}
+
+export function getSessionRateLimiter(): RateLimiter {
+  return getRateLimiter(sessionRateLimitConfig, "session");
+}
+
+export function getChatRateLimiter(): RateLimiter {
+  return getRateLimiter(chatRateLimitConfig, "chat");
+}
+
+export function getFrameRateLimiter(): RateLimiter {
+  return getRateLimiter(frameRateLimitConfig, "frame");
+}
@@ -0,0 +1,89 @@
+import { PreviousFrame } from "./providers";
+
+export const MAX_PREVIOUS_DESCRIPTION_LENGTH = 2000;
+
+const CHANGES_MARKER = "Changes:";
+
+/**
+ * Appended to the prompt when prior state is sent. Prose replies keep the
+ * full description and end with a "Changes:" line, so streamed text stays
+ * readable up to the marker; structured replies get a "changes" field.
+ */
+export function changesInstructions(previous: PreviousFrame, structured: boolean): string {
+  const reference = previous.image
+    ? "The first image is the previous frame and the second image is the current frame. Describe the current frame."
+    : "";
+  const earlier = previous.description
+    ? `Previous description: "${previous.description.replace(/"/g, "'")}"`
+    : "";
+  const format = structured
+    ? `Also include a "changes" string field in the JSON object.`
+    : `After the description, add a final line starting with "${CHANGES_MARKER}".`;
+
+  return [
+    reference,
+    earlier,
+    `${format} In one short sentence, say what changed compared with the previous ` +
+      `${previous.image ? "frame" : "description"} (e.g. "The page was turned."), or "None" if nothing notable changed.`
+  ].filter(Boolean).join("\n");
+}
+
+function normalizeChanges(raw: string): string | null {
+  const changes = raw.trim().replace(/^["']|["']$/g, "").trim();
+  if (!changes || /^(none|no (notable )?changes?)\.?$/i.test(changes)) return null;
+  return changes;
+}
+
+/**
+ * Splits a prose reply into the description and its "Changes:" line, at
+ * the last marker since transcribed text may contain the word too.
+ * Replies without the marker are treated as description only.
+ */
+export function splitChanges(raw: string): { description: string; changes: string | null } {
+  const index = raw.lastIndexOf(CHANGES_MARKER);
+  if (index === -1) {
+    return { description: raw.trim(), changes: null };
+  }
+  return {
+    description: raw.slice(0, index).trim(),
+    changes: normalizeChanges(raw.slice(index + CHANGES_MARKER.length))
+  };
+}
+
+/** Reads the "changes" field that structured replies carry alongside the scene. */
+export function extractJsonChanges(raw: string): string | null {
+  try {
+    const data = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
+    return typeof data?.changes === "string" ? normalizeChanges(data.changes) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Streams prose while holding back anything that might be the start of the
+ * "Changes:" line, so clients only ever see description text in chunks.
+ * Splits where `splitChanges` does: text after a marker is held until the
+ * stream ends, and released as description if a later marker follows.
+ */
+export class ChangesStreamSplitter {
+  private text = "";
+  private emitted = 0;
+
+  /** Adds a chunk and returns the description text that is safe to emit. */
+  push(chunk: string): string {
+    this.text += chunk;
+    const marker = this.text.lastIndexOf(CHANGES_MARKER);
+    const safeEnd = Math.max(
+      this.emitted,
+      marker === -1 ? this.text.length - CHANGES_MARKER.length : marker
+    );
+    const safe = this.text.slice(this.emitted, safeEnd);
+    this.emitted = safeEnd;
+    return safe;
+  }
+
+  finish(): { description: string; changes: string | null } {
+    return splitChanges(this.text);
+  }
+}
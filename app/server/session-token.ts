@@ -0,0 +1,244 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import { getRateLimitStore } from "./rate-limit";
+
+export interface SessionClaims {
+  v: 1;
+  /** Session id, also used as the rate limiting key. Kept across refreshes. */
+  sid: string;
+  origin: string;
+  /** When the session started, in seconds; refreshes keep it. */
+  sat: number;
+  iat: number;
+  exp: number;
+  /** Maximum vision requests for the session; absent means unlimited. */
+  budget?: number;
+}
+
+export type SessionTokenErrorCode =
+  | "missing_token"
+  | "invalid_token"
+  | "token_expired"
+  | "origin_mismatch"
+  | "budget_exhausted";
+
+export class SessionTokenError extends Error {
+  code: SessionTokenErrorCode;
+  status: number;
+
+  constructor(code: SessionTokenErrorCode, message: string, status = 401) {
+    super(message);
+    this.name = "SessionTokenError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const sessionTokenConfig = {
+  ttlSeconds: readNumber("SESSION_TOKEN_TTL_SECONDS", 600),
+  /** How long a session can be kept alive by refreshing its token. */
+  maxAgeSeconds: readNumber("SESSION_MAX_AGE_SECONDS", 86400),
+  /** 0 disables the per-token budget. */
+  budget: readNumber("SESSION_TOKEN_BUDGET", 300)
+};
+
+let generatedSecret: Buffer | null = null;
+
+function getSecret(): Buffer {
+  const configured = process.env.SESSION_TOKEN_SECRET;
+  if (configured) return Buffer.from(configured, "utf8");
+
+  if (!generatedSecret) {
+    // Tokens signed with a per-process secret stop verifying after a restart
+    // and across instances, which is fine for local development only.
+    console.warn("SESSION_TOKEN_SECRET is not set; using a random per-process secret");
+    generatedSecret = randomBytes(32);
+  }
+  return generatedSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * The origin the browser reports for this request, falling back to the
+ * Referer for clients that omit `Origin`.
+ */
+export function getRequestOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get("origin");
+  if (origin) return origin;
+
+  const referer = request.headers.get("referer");
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+let warnedAboutOrigins = false;
+
+/**
+ * Origins allowed to obtain tokens, from `SESSION_ALLOWED_ORIGINS` (comma
+ * separated). The request's own URL is not trusted: behind a proxy it is the
+ * internal host. Without the setting, production allows no origin and
+ * development allows only loopback origins.
+ */
+export function isAllowedOrigin(origin: string): boolean {
+  const configured = process.env.SESSION_ALLOWED_ORIGINS;
+  if (configured) {
+    return configured.split(",").map(entry => entry.trim()).includes(origin);
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    if (!warnedAboutOrigins) {
+      console.error("SESSION_ALLOWED_ORIGINS is not set; refusing all session requests");
+      warnedAboutOrigins = true;
+    }
+    return false;
+  }
+
+  try {
+    const { protocol, hostname } = new URL(origin);
+    return protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+function signClaims(claims: SessionClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function issueSessionToken(origin: string, now = Date.now()): { token: string; claims: SessionClaims } {
+  const iat = Math.floor(now / 1000);
+  const claims: SessionClaims = {
+    v: 1,
+    sid: randomUUID(),
+    origin,
+    sat: iat,
+    iat,
+    exp: iat + sessionTokenConfig.ttlSeconds,
+    ...(sessionTokenConfig.budget > 0 ? { budget: sessionTokenConfig.budget } : {})
+  };
+
+  return { token: signClaims(claims), claims };
+}
+
+/**
+ * Checks the signature and shape of a token without looking at its expiry
+ * or origin.
+ */
+function decodeSessionToken(token: string): SessionClaims {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    throw new SessionTokenError("invalid_token", "Malformed session token");
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new SessionTokenError("invalid_token", "Session token signature is invalid");
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new SessionTokenError("invalid_token", "Session token payload is unreadable");
+  }
+
+  if (claims.v !== 1 || typeof claims.sid !== "string" || typeof claims.sat !== "number"
+    || typeof claims.exp !== "number") {
+    throw new SessionTokenError("invalid_token", "Session token payload is invalid");
+  }
+  return claims;
+}
+
+export function verifySessionToken(token: string, origin: string | null, now = Date.now()): SessionClaims {
+  const claims = decodeSessionToken(token);
+
+  if (claims.exp * 1000 <= now) {
+    throw new SessionTokenError("token_expired", "Session token has expired");
+  }
+
+  if (!origin || origin !== claims.origin) {
+    throw new SessionTokenError("origin_mismatch", "Session token was issued for a different origin", 403);
+  }
+
+  return claims;
+}
+
+/**
+ * Issues a new token for the session `token` belongs to, keeping its id,
+ * start time and budget, so the requests it has spent stay spent. The old
+ * token may have expired, but not the session: after
+ * `SESSION_MAX_AGE_SECONDS` the client has to start a new one.
+ */
+export function refreshSessionToken(token: string, origin: string, now = Date.now()): { token: string; claims: SessionClaims } {
+  const previous = decodeSessionToken(token);
+
+  if (origin !== previous.origin) {
+    throw new SessionTokenError("origin_mismatch", "Session token was issued for a different origin", 403);
+  }
+
+  const iat = Math.floor(now / 1000);
+  const ends = previous.sat + sessionTokenConfig.maxAgeSeconds;
+  if (iat >= ends) {
+    throw new SessionTokenError("token_expired", "Session has reached its maximum age");
+  }
+
+  const claims: SessionClaims = { ...previous, iat, exp: Math.min(ends, iat + sessionTokenConfig.ttlSeconds) };
+  return { token: signClaims(claims), claims };
+}
+
+/** The bearer token in the `Authorization` header, if any. */
+export function readBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization");
+  return header?.match(/^Bearer\s+(.+)$/i)?.[1].trim() ?? null;
+}
+
+/**
+ * Reads and verifies the `Authorization: Bearer <token>` header.
+ */
+export function authenticateRequest(request: NextRequest): SessionClaims {
+  const token = readBearerToken(request);
+  if (!token) {
+    throw new SessionTokenError("missing_token", "A session token is required. Request one from /api/session");
+  }
+  return verifySessionToken(token, getRequestOrigin(request));
+}
+
+interface BudgetState {
+  used: number;
+  /** Whether the update that wrote this state charged a request. */
+  charged: boolean;
+}
+
+/**
+ * Counts one request against the session's budget, throwing once it is
+ * spent. The count lives as long as the session can be refreshed.
+ */
+export async function consumeSessionBudget(claims: SessionClaims, now = Date.now()): Promise<number | undefined> {
+  const { budget } = claims;
+  if (budget === undefined) return undefined;
+
+  const ttlMs = Math.max(1000, (claims.sat + sessionTokenConfig.maxAgeSeconds) * 1000 - now);
+  const state = await getRateLimitStore().update<BudgetState>(`budget:${claims.sid}`, ttlMs, current => {
+    const used = current?.used ?? 0;
+    return used < budget ? { used: used + 1, charged: true } : { used, charged: false };
+  });
+
+  if (!state.charged) {
+    throw new SessionTokenError("budget_exhausted", "Session request budget exhausted", 403);
+  }
+  return budget - state.used;
+}
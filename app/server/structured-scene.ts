@@ -0,0 +1,93 @@
+import { SceneObject, SceneScreen, SceneTextBlock, StructuredScene } from "@/app/vision-types";
+
+export const STRUCTURED_VISION_PROMPT = `You describe what's visible in a camera image for a voice agent, as JSON.
+Reply with a single JSON object and nothing else, matching this shape:
+{
+  "summary": string,        // 1–2 factual sentences about the scene
+  "objects": [{ "name": string, "details"?: string }],
+  "text": [{ "content": string, "location"?: string }],
+  "peopleCount": number,
+  "screens": [{ "kind": "code" | "ui" | "document" | "other", "description": string, "code"?: string, "language"?: string }]
+}
+Transcribe text and code exactly as it appears, in "text" or "screens[].code", never paraphrased.
+Use empty arrays and 0 when nothing applies.
+Do not mention photos, images, or cameras—just describe what is present.`;
+
+const SCREEN_KINDS = new Set<SceneScreen["kind"]>(["code", "ui", "document", "other"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseList<T>(value: unknown, parseItem: (item: Record<string, unknown>) => T | null): T[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const items: T[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) return null;
+    const item = parseItem(entry);
+    if (item) items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Validates a model reply against the `StructuredScene` schema. Returns null
+ * for anything malformed so the caller can fall back to prose.
+ */
+export function parseStructuredScene(raw: string): StructuredScene | null {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(data) || typeof data.summary !== "string" || !data.summary.trim()) {
+    return null;
+  }
+
+  const objects = parseList<SceneObject>(data.objects, item =>
+    typeof item.name === "string" && item.name.trim()
+      ? { name: item.name.trim(), details: optionalString(item.details) }
+      : null
+  );
+
+  const text = parseList<SceneTextBlock>(data.text, item =>
+    typeof item.content === "string" && item.content
+      ? { content: item.content, location: optionalString(item.location) }
+      : null
+  );
+
+  const screens = parseList<SceneScreen>(data.screens, item => {
+    const kind = SCREEN_KINDS.has(item.kind as SceneScreen["kind"]) ? item.kind as SceneScreen["kind"] : "other";
+    const description = optionalString(item.description);
+    if (!description) return null;
+    return {
+      kind,
+      description,
+      code: typeof item.code === "string" && item.code ? item.code : undefined,
+      language: optionalString(item.language)
+    };
+  });
+
+  const peopleCount = data.peopleCount === undefined ? 0 : data.peopleCount;
+
+  if (!objects || !text || !screens || typeof peopleCount !== "number" || !Number.isFinite(peopleCount) || peopleCount < 0) {
+    return null;
+  }
+
+  return {
+    summary: data.summary.trim(),
+    objects,
+    text,
+    peopleCount: Math.round(peopleCount),
+    screens
+  };
+}
@@ -0,0 +1,37 @@
+import { TokenUsage } from "./providers";
+
+function readPrice(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * USD per million tokens. Defaults are Gemini 2.0 Flash-Lite list prices;
+ * override them for other models or self-hosted backends (use 0).
+ */
+export const tokenPricing = {
+  inputPerMillion: readPrice(process.env.VISION_INPUT_PRICE_PER_MTOK, 0.075),
+  outputPerMillion: readPrice(process.env.VISION_OUTPUT_PRICE_PER_MTOK, 0.3)
+};
+
+export interface UsageReport extends TokenUsage {
+  /** Estimated from `tokenPricing`. */
+  costUsd: number;
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
+/** Usage as returned to clients, with its estimated cost. */
+export function toUsageReport(usage: TokenUsage | undefined): UsageReport | undefined {
+  if (!usage) return undefined;
+  const costUsd = (usage.inputTokens * tokenPricing.inputPerMillion + usage.outputTokens * tokenPricing.outputPerMillion) / 1_000_000;
+  return { ...usage, costUsd: Math.round(costUsd * 1e8) / 1e8 };
+}
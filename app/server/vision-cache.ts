@@ -0,0 +1,276 @@
+import { createHash } from "crypto";
+import { StructuredScene } from "@/app/vision-types";
+import { DescribeImageResult } from "./describe";
+import { loadSharp } from "./image-intake";
+import { recordCacheLookup } from "./metrics";
+import { VisionImage } from "./providers";
+import { VisionRequestContext } from "./vision-request";
+
+/**
+ * A 512-bit difference hash of the image, so frames of a still scene that
+ * differ only by sensor noise or JPEG artefacts land within a few bits of
+ * each other. `bits` is null for exact hashes, or when sharp is unavailable,
+ * and `hex` is a SHA-256 of the bytes instead, which only matches identical
+ * uploads.
+ */
+export interface ImageHash {
+  hex: string;
+  bits: Uint8Array | null;
+}
+
+export interface CachedDescription {
+  description: string;
+  scene: StructuredScene | null;
+}
+
+export interface VisionCacheConfig {
+  /** How long a description is reused; 0 turns the cache off. */
+  ttlMs: number;
+  maxEntries: number;
+  /** Hash bits two frames may differ by and still count as the same scene. */
+  maxDistance: number;
+}
+
+function readNonNegative(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const visionCacheConfig: VisionCacheConfig = {
+  ttlMs: readNonNegative("VISION_CACHE_TTL_MS", 30_000),
+  maxEntries: Math.max(1, readNonNegative("VISION_CACHE_MAX_ENTRIES", 500)),
+  maxDistance: readNonNegative("VISION_CACHE_MAX_DISTANCE", 16)
+};
+
+const HASH_SIZE = 16;
+// Grey levels a neighbour must differ by to set a bit, so noise in flat
+// areas such as walls doesn't flip bits between frames.
+const NOISE_FLOOR = 2;
+
+export async function imageHash(image: VisionImage, exact = false): Promise<ImageHash> {
+  const bytes = Buffer.from(image.data, "base64");
+  const sharp = exact ? null : await loadSharp();
+  if (sharp) {
+    try {
+      // Each bit says whether a pixel of a (HASH_SIZE + 1)² greyscale
+      // thumbnail is brighter than its right neighbour, then (second half)
+      // than the one below it.
+      const side = HASH_SIZE + 1;
+      const pixels = await sharp(bytes)
+        .rotate()
+        .greyscale()
+        .resize(side, side, { fit: "fill" })
+        .raw()
+        .toBuffer();
+      const bits = new Uint8Array(HASH_SIZE * HASH_SIZE * 2 / 8);
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          const pixel = pixels[y * side + x];
+          const bit = y * HASH_SIZE + x;
+          if (pixel > pixels[y * side + x + 1] + NOISE_FLOOR) bits[bit >> 3] |= 1 << (bit & 7);
+          const below = bit + HASH_SIZE * HASH_SIZE;
+          if (pixel > pixels[(y + 1) * side + x] + NOISE_FLOOR) bits[below >> 3] |= 1 << (below & 7);
+        }
+      }
+      return { hex: Buffer.from(bits).toString("hex"), bits };
+    } catch {
+      // Fall through to the exact hash; intake has already vetted the image.
+    }
+  }
+  return { hex: createHash("sha256").update(bytes).digest("hex"), bits: null };
+}
+
+function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = a[i] ^ b[i];
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+interface CacheEntry {
+  scope: string;
+  hash: ImageHash;
+  value: CachedDescription;
+  expiresAt: number;
+}
+
+/** How one caller takes part in a shared upstream call. */
+export interface CoalesceOptions {
+  /** Receives the text streamed so far, then each new piece as it arrives. */
+  onChunk?: (text: string) => void;
+  /** Detaches the caller; the upstream call is aborted once every caller has. */
+  signal?: AbortSignal;
+}
+
+/**
+ * An upstream call owned by no single caller: its chunks are kept for late
+ * joiners and it only stops when every caller has gone.
+ */
+class SharedCall {
+  readonly upstream = new AbortController();
+  readonly chunks: string[] = [];
+  readonly listeners = new Set<(text: string) => void>();
+  callers = 0;
+  promise: Promise<unknown> = Promise.resolve();
+
+  emit = (text: string) => {
+    this.chunks.push(text);
+    for (const listener of this.listeners) listener(text);
+  };
+}
+
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Descriptions by request scope and image hash, with a TTL and an LRU bound
+ * on the number of entries, plus the upstream calls currently in flight so
+ * identical concurrent requests share one.
+ */
+export class VisionCache {
+  // Map iteration order is insertion order; entries are re-inserted on use,
+  // so the first key is the least recently used.
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, SharedCall>();
+
+  constructor(private config: VisionCacheConfig) {}
+
+  /** Whether two hashes are close enough to be the same scene. */
+  matches(a: ImageHash, b: ImageHash): boolean {
+    if (a.hex === b.hex) return true;
+    return Boolean(a.bits && b.bits) && hammingDistance(a.bits!, b.bits!) <= this.config.maxDistance;
+  }
+
+  get(scope: string, hash: ImageHash, now = Date.now()): CachedDescription | null {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      if (entry.scope === scope && this.matches(entry.hash, hash)) {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+      }
+    }
+    return null;
+  }
+
+  set(scope: string, hash: ImageHash, value: CachedDescription, now = Date.now()) {
+    const key = `${scope}\n${hash.hex}`;
+    this.entries.delete(key);
+    this.entries.set(key, { scope, hash, value, expiresAt: now + this.config.ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.config.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Runs `produce` unless a call with the same `key` is already running,
+   * in which case its chunks, result and error are shared. `produce` gets
+   * its own abort signal rather than the caller's, so the first caller
+   * leaving doesn't fail the others.
+   */
+  async coalesce<T>(
+    key: string,
+    produce: (emit: (text: string) => void, signal: AbortSignal) => Promise<T>,
+    options: CoalesceOptions = {}
+  ): Promise<{ value: T; coalesced: boolean }> {
+    const { onChunk, signal } = options;
+    let call = this.inFlight.get(key);
+    const coalesced = Boolean(call && !call.upstream.signal.aborted);
+
+    if (!call || !coalesced) {
+      const created = new SharedCall();
+      created.promise = produce(created.emit, created.upstream.signal).finally(() => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      // Callers that left have nobody to report to.
+      created.promise.catch(() => {});
+      this.inFlight.set(key, created);
+      call = created;
+    }
+
+    const shared = call;
+    shared.callers++;
+    if (onChunk) {
+      shared.chunks.forEach(onChunk);
+      shared.listeners.add(onChunk);
+    }
+    try {
+      return { value: await untilAborted(shared.promise as Promise<T>, signal), coalesced };
+    } finally {
+      if (onChunk) shared.listeners.delete(onChunk);
+      if (--shared.callers === 0 && signal?.aborted) shared.upstream.abort();
+    }
+  }
+}
+
+// The JSON and streaming routes share entries and in-flight calls, so the
+// cache must outlive the per-route module copies Next makes in development.
+const globalForCache = globalThis as typeof globalThis & { visionCache?: VisionCache };
+
+export function getVisionCache(): VisionCache {
+  return (globalForCache.visionCache ??= new VisionCache(visionCacheConfig));
+}
+
+/**
+ * Answers a vision request from the cache when the session recently asked
+ * the same thing (mode, question, structured flag) about a near-identical
+ * frame (an identical one in modes with `exactCacheMatch`); otherwise runs
+ * `produce`, sharing the call with identical concurrent requests. Change
+ * requests are only answered from the cache when the client's previous
+ * frame is the cached scene, and then report no changes. Bursts are never
+ * cached. `cached` is true when no upstream call was made for this request;
+ * its usage is then omitted. Text `produce` emits reaches `options.onChunk`
+ * of every request sharing the call.
+ */
+export async function withVisionCache(
+  context: VisionRequestContext,
+  produce: (emit: (text: string) => void, signal?: AbortSignal) => Promise<DescribeImageResult>,
+  options: CoalesceOptions = {}
+): Promise<{ result: DescribeImageResult; cached: boolean }> {
+  if (!visionCacheConfig.ttlMs || context.sequence) {
+    return { result: await produce(text => options.onChunk?.(text), options.signal), cached: false };
+  }
+
+  const cache = getVisionCache();
+  const { session, preset, mode, structured, question, image, previous } = context;
+  // Scoped to the session so one user's descriptions never reach another.
+  const scope = JSON.stringify([session.sid, mode, structured, question]);
+  const hash = await imageHash(image, preset.exactCacheMatch);
+  const previousHash = previous?.image ? await imageHash(previous.image, preset.exactCacheMatch) : undefined;
+
+  const hit = cache.get(scope, hash);
+  if (hit && (!previous
+    || previous.description === hit.description
+    || (previousHash && cache.matches(previousHash, hash)))) {
+    recordCacheLookup("hit");
+    return { result: { ...hit, changes: null }, cached: true };
+  }
+
+  const key = JSON.stringify([scope, hash.hex, previous?.description ?? null, previousHash?.hex ?? null]);
+  const { value, coalesced } = await cache.coalesce(key, async (emit, signal) => {
+    const result = await produce(emit, signal);
+    cache.set(scope, hash, { description: result.description, scene: result.scene });
+    return result;
+  }, options);
+  recordCacheLookup(coalesced ? "coalesced" : "miss");
+  return coalesced
+    ? { result: { ...value, usage: undefined }, cached: true }
+    : { result: value, cached: false };
+}
@@ -0,0 +1,365 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_VISION_MODE, MAX_QUESTION_LENGTH, VisionModeId, isVisionModeId } from "@/app/vision-modes";
+import { ImageIntakeError, assertImageSize, imageIntakeConfig, intakeImage } from "./image-intake";
+import { recordUpstreamQuotaError } from "./metrics";
+import { PreviousFrame, VisionImage } from "./providers";
+import { RateLimiter, getClientKeys, getVisionRateLimiter, rateLimitHeaders } from "./rate-limit";
+import {
+  SessionClaims,
+  SessionTokenError,
+  authenticateRequest,
+  consumeSessionBudget
+} from "./session-token";
+import { MAX_PREVIOUS_DESCRIPTION_LENGTH } from "./scene-changes";
+import { VisionPreset, getVisionPreset, sanitizeQuestion } from "./vision-presets";
+
+export interface VisionRequestContext {
+  session: SessionClaims;
+  mode: VisionModeId;
+  preset: VisionPreset;
+  image: VisionImage;
+  question: string;
+  structured: boolean;
+  /** Set when the client sent a previous description or frame. */
+  previous?: PreviousFrame;
+  /** Earlier frames of a burst, oldest first; `image` is the latest. */
+  sequence?: VisionImage[];
+  frameIntervalMs?: number;
+}
+
+/** Most frames one burst request may carry. */
+export const MAX_BURST_FRAMES = 8;
+
+export type RequestBodyErrorCode = "body_too_large" | "invalid_json";
+
+export class RequestBodyError extends Error {
+  code: RequestBodyErrorCode;
+  status: number;
+
+  constructor(code: RequestBodyErrorCode, message: string, status: number) {
+    super(message);
+    this.name = "RequestBodyError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Buffers the request body, failing with 413 as soon as it passes
+ * `maxBytes`. Content-Length is only a hint: chunked uploads don't send it
+ * and clients can understate it.
+ */
+async function readBodyBytes(
+  request: NextRequest,
+  maxBytes: number,
+  tooLarge: () => Error = () => new RequestBodyError(
+    "body_too_large",
+    `Request body exceeds ${Math.round(maxBytes / 1024)} KB`,
+    413
+  )
+): Promise<Buffer> {
+  if (Number(request.headers.get("content-length")) > maxBytes) throw tooLarge();
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseJsonObject(bytes: Buffer): Record<string, unknown> {
+  let body: unknown;
+  try {
+    body = JSON.parse(bytes.toString("utf8"));
+  } catch {
+    throw new RequestBodyError("invalid_json", "Request body must be valid JSON", 400);
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new RequestBodyError("invalid_json", "Request body must be a JSON object", 400);
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Reads a JSON object body of at most `maxBytes`, throwing
+ * `RequestBodyError` (413, or 400 for anything but a JSON object).
+ */
+export async function readJsonBody(request: NextRequest, maxBytes: number): Promise<Record<string, unknown>> {
+  return parseJsonObject(await readBodyBytes(request, maxBytes));
+}
+
+/**
+ * Reads a JSON body, or a multipart form with `image` (and optionally
+ * `previousImage`, or repeated `frames`) files alongside the same fields as
+ * text. Files are returned as buffers under `imageBase64`,
+ * `previousImageBase64` and `frames` so the rest of the validation is shared.
+ */
+async function readVisionBody(request: NextRequest): Promise<Record<string, unknown>> {
+  // Room for two full-size base64 images (or a burst of small frames) plus
+  // the other fields; each image is checked against the limit afterwards.
+  const maxBodyBytes = Math.ceil(imageIntakeConfig.maxBytes * 8 / 3) + 64 * 1024;
+  const bytes = await readBodyBytes(request, maxBodyBytes, () => new ImageIntakeError(
+    "image_too_large",
+    `Request body exceeds ${Math.round(maxBodyBytes / 1024)} KB`,
+    413
+  ));
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (!contentType.includes("multipart/form-data")) {
+    return parseJsonObject(bytes);
+  }
+
+  // Re-wrapped so the platform's multipart parser reads the capped buffer.
+  const form = await new Response(bytes, { headers: { "content-type": contentType } }).formData();
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of form.entries()) {
+    if (typeof value === "string" && key !== "frames") {
+      body[key] = key === "structured" ? value === "true" : key === "frameIntervalMs" ? Number(value) : value;
+    }
+  }
+
+  const frames = form.getAll("frames");
+  if (frames.length > 0) {
+    body.frames = await Promise.all(frames.map(async (file, index) => {
+      if (typeof file === "string") return file;
+      assertImageSize(file.size, `Frame ${index + 1}`);
+      return Buffer.from(await file.arrayBuffer());
+    }));
+  }
+
+  for (const [field, key] of [["image", "imageBase64"], ["previousImage", "previousImageBase64"]] as const) {
+    const file = form.get(field);
+    if (file && typeof file !== "string") {
+      assertImageSize(file.size, field === "image" ? "Image" : "Previous image");
+      body[key] = Buffer.from(await file.arrayBuffer());
+    }
+  }
+  return body;
+}
+
+/**
+ * Preamble shared by every route that spends provider tokens for a
+ * session: authenticates the session token and applies `limiter` (the
+ * vision rate limits by default). Rate limit headers are written into
+ * `headers` so error responses built later still carry them. Returns a 429
+ * response when limited.
+ */
+export async function admitSessionRequest(
+  request: NextRequest,
+  headers: Record<string, string>,
+  limiter: RateLimiter = getVisionRateLimiter()
+): Promise<SessionClaims | NextResponse> {
+  const session = authenticateRequest(request);
+  const decision = await limiter.consume(getClientKeys(request, session.sid));
+  Object.assign(headers, rateLimitHeaders(decision, limiter.config));
+
+  if (!decision.allowed) {
+    const waitSeconds = Math.ceil((decision.retryAfterMs ?? 0) / 1000);
+    return NextResponse.json(
+      {
+        error: decision.reason === "daily" ? "Daily quota exceeded" : "Rate limited",
+        message: decision.reason === "daily"
+          ? `Daily quota of ${decision.dailyLimit} requests used. Resets in ${waitSeconds} seconds`
+          : `Please wait ${waitSeconds} seconds before next request`
+      },
+      { status: 429, headers }
+    );
+  }
+  return session;
+}
+
+/**
+ * Counts a validated request against the token budget, throwing
+ * `SessionTokenError` once it is spent. Call it after validation so
+ * rejected requests cost nothing.
+ */
+export async function chargeSessionBudget(session: SessionClaims, headers: Record<string, string>) {
+  const budgetRemaining = await consumeSessionBudget(session);
+  if (budgetRemaining !== undefined) {
+    headers["X-Session-Budget-Remaining"] = String(budgetRemaining);
+  }
+}
+
+/**
+ * Shared intake for the vision routes: admits the request (see
+ * `admitSessionRequest`), validates the body and charges the token budget.
+ * Returns a response when the request is rejected.
+ */
+export async function prepareVisionRequest(
+  request: NextRequest,
+  headers: Record<string, string>
+): Promise<VisionRequestContext | NextResponse> {
+  const session = await admitSessionRequest(request, headers);
+  if (session instanceof NextResponse) return session;
+
+  const {
+    imageBase64,
+    mode = DEFAULT_VISION_MODE,
+    question,
+    userPrompt,
+    structured,
+    previousDescription,
+    previousImageBase64,
+    frames,
+    frameIntervalMs
+  } = await readVisionBody(request);
+
+  const isImageData = (value: unknown): value is string | Buffer =>
+    Boolean(value) && (typeof value === "string" || Buffer.isBuffer(value));
+
+  if (frames !== undefined) {
+    if (!Array.isArray(frames) || frames.length < 2 || frames.length > MAX_BURST_FRAMES || !frames.every(isImageData)) {
+      return NextResponse.json(
+        { error: `frames must be 2–${MAX_BURST_FRAMES} images, oldest first` },
+        { status: 400, headers }
+      );
+    }
+    if (imageBase64 !== undefined || previousDescription !== undefined || previousImageBase64 !== undefined) {
+      return NextResponse.json(
+        { error: "frames cannot be combined with imageBase64, previousDescription or previousImageBase64" },
+        { status: 400, headers }
+      );
+    }
+    if (frameIntervalMs !== undefined
+      && (typeof frameIntervalMs !== "number" || !(frameIntervalMs > 0) || frameIntervalMs > 60000)) {
+      return NextResponse.json(
+        { error: "frameIntervalMs must be a number of milliseconds up to 60000" },
+        { status: 400, headers }
+      );
+    }
+  } else if (!isImageData(imageBase64)) {
+    return NextResponse.json(
+      { error: "Image data is required" },
+      { status: 400, headers }
+    );
+  }
+
+  if (userPrompt !== undefined) {
+    return NextResponse.json(
+      { error: "userPrompt is not supported. Select a mode and optionally pass a question" },
+      { status: 400, headers }
+    );
+  }
+
+  if (!isVisionModeId(mode)) {
+    return NextResponse.json(
+      { error: `Unknown vision mode "${String(mode)}"` },
+      { status: 400, headers }
+    );
+  }
+
+  if (question !== undefined && typeof question !== "string") {
+    return NextResponse.json(
+      { error: "question must be a string" },
+      { status: 400, headers }
+    );
+  }
+
+  const followUp = question ? sanitizeQuestion(question) : "";
+  if (followUp.length > MAX_QUESTION_LENGTH) {
+    return NextResponse.json(
+      { error: `question must be at most ${MAX_QUESTION_LENGTH} characters` },
+      { status: 400, headers }
+    );
+  }
+
+  if (previousDescription !== undefined && typeof previousDescription !== "string") {
+    return NextResponse.json(
+      { error: "previousDescription must be a string" },
+      { status: 400, headers }
+    );
+  }
+
+  const earlier = previousDescription ? sanitizeQuestion(previousDescription) : "";
+  if (earlier.length > MAX_PREVIOUS_DESCRIPTION_LENGTH) {
+    return NextResponse.json(
+      { error: `previousDescription must be at most ${MAX_PREVIOUS_DESCRIPTION_LENGTH} characters` },
+      { status: 400, headers }
+    );
+  }
+
+  if (previousImageBase64 !== undefined && typeof previousImageBase64 !== "string" && !Buffer.isBuffer(previousImageBase64)) {
+    return NextResponse.json(
+      { error: "previousImageBase64 must be a string" },
+      { status: 400, headers }
+    );
+  }
+
+  // Throws ImageIntakeError (413/415) before any budget is spent.
+  const burst = frames
+    ? await Promise.all((frames as (string | Buffer)[]).map((frame, index) => intakeImage(frame, `Frame ${index + 1}`)))
+    : undefined;
+  const image = burst ? burst[burst.length - 1] : await intakeImage(imageBase64 as string | Buffer);
+  const previousImage = previousImageBase64 ? await intakeImage(previousImageBase64, "Previous image") : undefined;
+
+  const previous: PreviousFrame | undefined = earlier || previousImage
+    ? { description: earlier || undefined, image: previousImage }
+    : undefined;
+
+  await chargeSessionBudget(session, headers);
+
+  return {
+    session,
+    mode,
+    preset: getVisionPreset(mode),
+    image,
+    question: followUp,
+    structured: Boolean(structured),
+    previous,
+    ...(burst ? { sequence: burst.slice(0, -1), frameIntervalMs: frameIntervalMs as number | undefined } : {})
+  };
+}
+
+export interface VisionErrorBody {
+  error: string;
+  code?: string;
+  message?: string;
+  details?: string;
+}
+
+/**
+ * Maps a thrown error to the status and body the vision routes report.
+ */
+export function describeVisionError(error: unknown): { status: number; body: VisionErrorBody; retryAfter?: number } {
+  if (error instanceof SessionTokenError || error instanceof ImageIntakeError || error instanceof RequestBodyError) {
+    return { status: error.status, body: { error: error.message, code: error.code } };
+  }
+
+  console.error('Vision API error:', error);
+
+  if ((error as { status?: unknown } | null)?.status === 429) {
+    recordUpstreamQuotaError();
+    return {
+      status: 429,
+      retryAfter: 60,
+      body: {
+        error: "API quota exceeded",
+        message: "Vision API quota exceeded. Please wait 60 seconds.",
+        details: "Consider upgrading your API plan for higher limits"
+      }
+    };
+  }
+
+  return {
+    status: 500,
+    body: { error: "Failed to process image", details: error instanceof Error ? error.message : "Unknown error" }
+  };
+}
+
+export function visionErrorResponse(error: unknown, headers: Record<string, string>): NextResponse {
+  const { status, body, retryAfter } = describeVisionError(error);
+  return NextResponse.json(body, {
+    status,
+    headers: retryAfter !== undefined ? { ...headers, "Retry-After": String(retryAfter) } : headers
+  });
+}
@@ -0,0 +1,112 @@
+interface SessionTokenResponse {
+  token: string;
+  sessionId: string;
+  expiresAt: number;
+  budget: number | null;
+  success: boolean;
+}
+
+// Errors after which a fresh token may succeed. Origin mismatches will not,
+// and a spent budget must not be reset by minting a new session.
+const REFRESHABLE_CODES = new Set(['missing_token', 'invalid_token', 'token_expired']);
+
+const STORAGE_KEY = 'vision-session-token';
+
+/**
+ * Holds the session token for `/api/session`-protected routes. Refreshing
+ * sends the current token, so the server keeps the same session (and its
+ * spent budget); the token is kept in sessionStorage so a reload continues
+ * the session too.
+ */
+export class SessionClient {
+  private token: string | null = null;
+  private expiresAt = 0;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(
+    private endpoint = '/api/session',
+    private refreshMarginMs = 30000
+  ) {
+    this.load();
+  }
+
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.expiresAt - this.refreshMarginMs) {
+      return this.token;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  /** Forces a refresh on the next request. The old token still identifies the session. */
+  invalidate() {
+    this.expiresAt = 0;
+  }
+
+  /**
+   * `fetch` with the session token attached. A rejected token is refreshed
+   * and the request retried once.
+   */
+  async fetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const response = await this.fetchWithToken(input, init);
+
+    if (response.status === 401 || response.status === 403) {
+      const errorData = await response.clone().json().catch(() => null);
+      if (errorData && REFRESHABLE_CODES.has(errorData.code)) {
+        this.invalidate();
+        return this.fetchWithToken(input, init);
+      }
+    }
+
+    return response;
+  }
+
+  private async fetchWithToken(input: string, init: RequestInit): Promise<Response> {
+    const token = await this.getToken();
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  }
+
+  private async requestToken(): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`Session request failed: ${response.status}`);
+    }
+
+    const result: SessionTokenResponse = await response.json();
+    this.token = result.token;
+    this.expiresAt = result.expiresAt;
+    this.save();
+    return result.token;
+  }
+
+  private save() {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ token: this.token, expiresAt: this.expiresAt }));
+    } catch {
+      // Storage may be unavailable (private mode); a reload then starts a new session.
+    }
+  }
+
+  private load() {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (typeof stored?.token === 'string' && typeof stored?.expiresAt === 'number') {
+        this.token = stored.token;
+        this.expiresAt = stored.expiresAt;
+      }
+    } catch {
+      // Nothing stored, or storage is unavailable.
+    }
+  }
+}
@@ -0,0 +1,130 @@
+export type SessionLogEntry =
+  | {
+      kind: 'transcript';
+      role: 'user' | 'assistant';
+      text: string;
+      timestamp: number;
+    }
+  | {
+      kind: 'vision';
+      /** Exactly the text sent to the call as context or a tool result. */
+      text: string;
+      question?: string;
+      /** Small JPEG data URL of the analysed frame. */
+      thumbnail?: string;
+      timestamp: number;
+    };
+
+export interface SessionLogSnapshot {
+  startedAt: number | null;
+  endedAt: number | null;
+  entries: SessionLogEntry[];
+}
+
+/**
+ * Timestamped record of a call: final user/assistant transcripts and the
+ * scene context sent to the assistant, with optional frame thumbnails.
+ */
+export class SessionLog {
+  private entries: SessionLogEntry[] = [];
+  private startedAt: number | null = null;
+  private endedAt: number | null = null;
+  private listeners = new Set<(snapshot: SessionLogSnapshot) => void>();
+
+  start(now = Date.now()) {
+    this.entries = [];
+    this.startedAt = now;
+    this.endedAt = null;
+    this.notify();
+  }
+
+  end(now = Date.now()) {
+    this.endedAt = now;
+    this.notify();
+  }
+
+  addTranscript(role: 'user' | 'assistant', text: string, now = Date.now()) {
+    if (!text.trim()) return;
+    this.entries.push({ kind: 'transcript', role, text: text.trim(), timestamp: now });
+    this.notify();
+  }
+
+  addVision(text: string, options?: { question?: string; thumbnail?: string }, now = Date.now()) {
+    this.entries.push({
+      kind: 'vision',
+      text,
+      question: options?.question,
+      thumbnail: options?.thumbnail,
+      timestamp: now
+    });
+    this.notify();
+  }
+
+  getSnapshot(): SessionLogSnapshot {
+    return { startedAt: this.startedAt, endedAt: this.endedAt, entries: [...this.entries] };
+  }
+
+  subscribe(listener: (snapshot: SessionLogSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.getSnapshot(), null, 2);
+  }
+
+  toMarkdown(): string {
+    const lines = ['# Session transcript', ''];
+    if (this.startedAt) {
+      lines.push(`- Started: ${new Date(this.startedAt).toISOString()}`);
+    }
+    if (this.endedAt) {
+      lines.push(`- Ended: ${new Date(this.endedAt).toISOString()}`);
+    }
+    lines.push('');
+
+    for (const entry of this.entries) {
+      const time = new Date(entry.timestamp).toLocaleTimeString();
+      if (entry.kind === 'transcript') {
+        lines.push(`**${time} ${entry.role === 'user' ? 'User' : 'Assistant'}:** ${entry.text}`, '');
+      } else {
+        const asked = entry.question ? ` (asked: "${entry.question}")` : '';
+        lines.push(`> ${time} Vision${asked}: ${entry.text}`, '');
+        if (entry.thumbnail) {
+          lines.push(`![Frame at ${time}](${entry.thumbnail})`, '');
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Downscales the current capture into a small JPEG data URL for the log.
+ */
+export function createThumbnail(source: CanvasImageSource, width = 96, height = 72): string | undefined {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.6);
+}
+
+export function downloadText(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,127 @@
+import { VisionModeId } from './vision-modes';
+
+export interface SnapshotFollowUp {
+  question: string;
+  mode: VisionModeId;
+  answer: string;
+  askedAt: number;
+}
+
+/** A bookmarked frame with the description it got when captured. */
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  /** Redacted JPEG as sent to /api/vision, so follow-ups see the same pixels. */
+  imageBase64: string;
+  description: string;
+  mode: VisionModeId;
+  followUps: SnapshotFollowUp[];
+}
+
+type SnapshotListener = (snapshots: Snapshot[]) => void;
+
+const DB_NAME = 'vision-snapshots';
+const STORE = 'snapshots';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function snapshotImageUrl(snapshot: Snapshot): string {
+  return `data:image/jpeg;base64,${snapshot.imageBase64}`;
+}
+
+export function snapshotImageBlob(snapshot: Snapshot): Blob {
+  const bytes = Uint8Array.from(atob(snapshot.imageBase64), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: 'image/jpeg' });
+}
+
+/**
+ * Bookmarked frames, kept in IndexedDB across reloads. Only the newest
+ * `maxSnapshots` are kept.
+ */
+export class SnapshotGallery {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<SnapshotListener>();
+
+  constructor(private maxSnapshots = 100) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /** Newest first. */
+  async list(): Promise<Snapshot[]> {
+    const store = await this.store('readonly');
+    const snapshots = await promisify<Snapshot[]>(store.getAll());
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async add(entry: Pick<Snapshot, 'imageBase64' | 'description' | 'mode'>): Promise<Snapshot> {
+    const createdAt = Date.now();
+    const snapshot: Snapshot = {
+      id: `snap_${createdAt}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt,
+      followUps: [],
+      ...entry,
+    };
+    await promisify((await this.store('readwrite')).put(snapshot));
+
+    const snapshots = await this.list();
+    const excess = snapshots.slice(this.maxSnapshots);
+    if (excess.length > 0) {
+      const store = await this.store('readwrite');
+      await Promise.all(excess.map(old => promisify(store.delete(old.id))));
+    }
+
+    this.notify();
+    return snapshot;
+  }
+
+  async addFollowUp(id: string, followUp: SnapshotFollowUp): Promise<Snapshot | null> {
+    const store = await this.store('readwrite');
+    const snapshot = await promisify<Snapshot | undefined>(store.get(id));
+    if (!snapshot) return null;
+
+    const updated = { ...snapshot, followUps: [...snapshot.followUps, followUp] };
+    await promisify(store.put(updated));
+    this.notify();
+    return updated;
+  }
+
+  async remove(id: string) {
+    await promisify((await this.store('readwrite')).delete(id));
+    this.notify();
+  }
+
+  /** Called with the full list after every change. Returns an unsubscribe function. */
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify() {
+    const snapshots = await this.list().catch(() => null);
+    if (snapshots) this.listeners.forEach(listener => listener(snapshots));
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      this.db = promisify(open);
+      // Let a later call retry if opening failed, e.g. in private mode.
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return (await this.db).transaction(STORE, mode).objectStore(STORE);
+  }
+}
@@ -0,0 +1,143 @@
+export type VideoSourceKind = 'camera' | 'screen' | 'file';
+
+/**
+ * Something that can feed the capture `<video>` element. The vision loop
+ * only ever reads from the element, so every source behaves the same once
+ * attached.
+ */
+export interface VideoSource {
+  readonly kind: VideoSourceKind;
+  readonly label: string;
+  /** Whether the preview should be mirrored (front-facing cameras). */
+  readonly mirrored: boolean;
+  attach(video: HTMLVideoElement): Promise<void>;
+  detach(video: HTMLVideoElement): void;
+  /** Called when the source stops on its own, e.g. the user ends a screen share. */
+  onEnded?: () => void;
+}
+
+function stopStream(video: HTMLVideoElement) {
+  if (video.srcObject instanceof MediaStream) {
+    video.srcObject.getTracks().forEach(track => track.stop());
+  }
+  video.srcObject = null;
+}
+
+abstract class MediaStreamSource implements VideoSource {
+  abstract readonly kind: VideoSourceKind;
+  abstract readonly label: string;
+  abstract readonly mirrored: boolean;
+  onEnded?: () => void;
+
+  protected abstract openStream(): Promise<MediaStream>;
+
+  async attach(video: HTMLVideoElement) {
+    const stream = await this.openStream();
+    stream.getVideoTracks().forEach(track => {
+      track.addEventListener('ended', () => this.onEnded?.());
+    });
+    video.removeAttribute('src');
+    video.loop = false;
+    video.srcObject = stream;
+  }
+
+  detach(video: HTMLVideoElement) {
+    stopStream(video);
+  }
+}
+
+export class CameraSource extends MediaStreamSource {
+  readonly kind = 'camera';
+  readonly label: string;
+  readonly mirrored: boolean;
+
+  constructor(private facingMode: 'user' | 'environment' = 'user') {
+    super();
+    this.label = facingMode === 'user' ? 'Front camera' : 'Back camera';
+    this.mirrored = facingMode === 'user';
+  }
+
+  protected openStream() {
+    return navigator.mediaDevices.getUserMedia({
+      video: { facingMode: this.facingMode }
+    });
+  }
+}
+
+export class ScreenShareSource extends MediaStreamSource {
+  readonly kind = 'screen';
+  readonly label = 'Screen share';
+  readonly mirrored = false;
+
+  protected openStream() {
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      return Promise.reject(new Error('Screen sharing is not supported in this browser'));
+    }
+    return navigator.mediaDevices.getDisplayMedia({
+      video: { frameRate: { ideal: 5, max: 15 } },
+      audio: false
+    });
+  }
+}
+
+/**
+ * Plays a local file or a URL on loop. Useful for reproducing vision
+ * behaviour without a camera; URLs must allow CORS so frames can be read.
+ */
+export class VideoFileSource implements VideoSource {
+  readonly kind = 'file';
+  readonly label: string;
+  readonly mirrored = false;
+  onEnded?: () => void;
+  private objectUrl: string | null = null;
+
+  constructor(private input: File | string) {
+    this.label = typeof input === 'string' ? input : input.name;
+  }
+
+  async attach(video: HTMLVideoElement) {
+    stopStream(video);
+
+    let url: string;
+    if (typeof this.input === 'string') {
+      url = this.input;
+      video.crossOrigin = 'anonymous';
+    } else {
+      url = this.objectUrl = URL.createObjectURL(this.input);
+      video.removeAttribute('crossorigin');
+    }
+
+    video.loop = true;
+    video.muted = true;
+    video.src = url;
+
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        video.removeEventListener('loadeddata', handleLoaded);
+        video.removeEventListener('error', handleError);
+      };
+      const handleLoaded = () => {
+        cleanup();
+        resolve();
+      };
+      const handleError = () => {
+        cleanup();
+        reject(new Error(`Could not load video: ${this.label}`));
+      };
+      video.addEventListener('loadeddata', handleLoaded);
+      video.addEventListener('error', handleError);
+    });
+
+    await video.play();
+  }
+
+  detach(video: HTMLVideoElement) {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Mode ids and labels are public; the prompts behind them live on the server
+// in app/server/vision-presets.ts.
+
+export const VISION_MODES = [
+  { id: 'general', label: 'General' },
+  { id: 'reading', label: 'Reading' },
+  { id: 'code', label: 'Code' },
+  { id: 'product', label: 'Product label' },
+  { id: 'accessibility', label: 'Navigation' },
+] as const;
+
+export type VisionModeId = typeof VISION_MODES[number]['id'];
+
+export const DEFAULT_VISION_MODE: VisionModeId = 'general';
+
+/** Longest follow-up question the route accepts alongside a mode. */
+export const MAX_QUESTION_LENGTH = 200;
+
+export function isVisionModeId(value: unknown): value is VisionModeId {
+  return VISION_MODES.some(mode => mode.id === value);
+}
@@ -0,0 +1,156 @@
+import { VisionModeId } from './vision-modes';
+
+// Tools the voice assistant can call to look at the scene on demand. They
+// are handled in the browser for client-side tools, or by
+// /api/vapi/tools when the assistant is configured with a server URL.
+
+export const VISION_TOOL_MODES = {
+  describe_scene: 'general',
+  read_text: 'reading',
+  zoom_on: 'reading',
+} as const satisfies Record<string, VisionModeId>;
+
+export type VisionToolName = keyof typeof VISION_TOOL_MODES;
+
+export interface VisionToolCall {
+  id: string;
+  name: VisionToolName;
+  args: Record<string, unknown>;
+}
+
+/**
+ * A Vapi `tool-calls` message, as far as the vision tools read it. Fields
+ * come from the network and are checked before use.
+ */
+export interface ToolCallsMessage {
+  type: 'tool-calls';
+  toolCallList: { id?: unknown; function?: { name?: unknown; arguments?: unknown } }[];
+  /** Present on server URL webhooks. */
+  call?: { id?: unknown };
+}
+
+/** Rectangle in fractions (0–1) of the frame as the user sees it. */
+export interface NormalizedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const NAMED_REGIONS: Record<string, NormalizedRegion> = {
+  center: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+  top: { x: 0.25, y: 0, width: 0.5, height: 0.5 },
+  bottom: { x: 0.25, y: 0.5, width: 0.5, height: 0.5 },
+  left: { x: 0, y: 0.25, width: 0.5, height: 0.5 },
+  right: { x: 0.5, y: 0.25, width: 0.5, height: 0.5 },
+  'top-left': { x: 0, y: 0, width: 0.5, height: 0.5 },
+  'top-right': { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+  'bottom-left': { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+  'bottom-right': { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+};
+
+/**
+ * Function definitions to paste into the assistant's tool configuration.
+ */
+export const VISION_TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'describe_scene',
+      description: 'Take a fresh look through the camera and describe what is visible now.',
+      parameters: {
+        type: 'object',
+        properties: {
+          question: { type: 'string', description: 'Optional specific question about the scene.' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'read_text',
+      description: 'Read all visible text in the camera view verbatim.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'zoom_on',
+      description: 'Look closely at one part of the camera view, e.g. to read small print.',
+      parameters: {
+        type: 'object',
+        properties: {
+          region: {
+            type: 'string',
+            enum: Object.keys(NAMED_REGIONS),
+            description: 'Part of the view to zoom on, as the user sees it.',
+          },
+          question: { type: 'string', description: 'Optional specific question about that region.' },
+        },
+        required: ['region'],
+      },
+    },
+  },
+];
+
+export function isVisionToolName(value: unknown): value is VisionToolName {
+  return typeof value === 'string' && value in VISION_TOOL_MODES;
+}
+
+export function isToolCallsMessage(message: unknown): message is ToolCallsMessage {
+  const candidate = message as Partial<ToolCallsMessage> | null;
+  return candidate?.type === 'tool-calls' && Array.isArray(candidate.toolCallList);
+}
+
+/**
+ * Extracts vision tool calls from a Vapi `tool-calls` message. Arguments may
+ * arrive as an object or a JSON string; other tools are ignored.
+ */
+export function parseVisionToolCalls(message: ToolCallsMessage): VisionToolCall[] {
+  const calls: VisionToolCall[] = [];
+  for (const call of message.toolCallList) {
+    const name = call?.function?.name;
+    if (!isVisionToolName(name) || typeof call.id !== 'string') continue;
+
+    let args = call.function?.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        args = {};
+      }
+    }
+    calls.push({ id: call.id, name, args: typeof args === 'object' && args ? args as Record<string, unknown> : {} });
+  }
+  return calls;
+}
+
+/**
+ * Accepts a named region ("top-left") or an `{ x, y, width, height }`
+ * object in fractions of the frame, clamped to the frame.
+ */
+export function parseRegion(value: unknown): NormalizedRegion | null {
+  if (typeof value === 'string') {
+    return NAMED_REGIONS[value.trim().toLowerCase().replace(/\s+/g, '-')] ?? null;
+  }
+
+  if (typeof value !== 'object' || value === null) return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if ([x, y, width, height].some(n => typeof n !== 'number' || !Number.isFinite(n))) return null;
+
+  const left = Math.min(1, Math.max(0, x as number));
+  const top = Math.min(1, Math.max(0, y as number));
+  const right = Math.min(1, Math.max(left, left + (width as number)));
+  const bottom = Math.min(1, Math.max(top, top + (height as number)));
+  if (right - left < 0.01 || bottom - top < 0.01) return null;
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function toolQuestion(call: VisionToolCall): string | undefined {
+  return typeof call.args.question === 'string' && call.args.question.trim()
+    ? call.args.question.trim()
+    : undefined;
+}
@@ -0,0 +1,29 @@
+// Shapes shared by the /api/vision route and its browser clients.
+
+export interface SceneObject {
+  name: string;
+  details?: string;
+}
+
+export interface SceneTextBlock {
+  /** Verbatim transcription. */
+  content: string;
+  /** Where the text appears, e.g. "book cover" or "whiteboard". */
+  location?: string;
+}
+
+export interface SceneScreen {
+  kind: 'code' | 'ui' | 'document' | 'other';
+  description: string;
+  /** Verbatim code when `kind` is "code". */
+  code?: string;
+  language?: string;
+}
+
+export interface StructuredScene {
+  summary: string;
+  objects: SceneObject[];
+  text: SceneTextBlock[];
+  peopleCount: number;
+  screens: SceneScreen[];
+}
@@ -0,0 +1,41 @@
+import { StructuredScene } from './vision-types';
+
+const MAX_CODE_CHARS = 600;
+
+/**
+ * Builds the system message sent to the voice assistant. Structured scenes
+ * keep transcribed text and code apart from object mentions so the assistant
+ * can quote them verbatim.
+ */
+export function formatVisualContext(description: string, scene?: StructuredScene): string {
+  if (!scene) {
+    return `Visual context update: ${description}`;
+  }
+
+  const lines = [`Visual context update: ${scene.summary}`];
+
+  if (scene.peopleCount > 0) {
+    lines.push(`People visible: ${scene.peopleCount}`);
+  }
+
+  if (scene.objects.length > 0) {
+    const objects = scene.objects.map(o => o.details ? `${o.name} (${o.details})` : o.name);
+    lines.push(`Objects: ${objects.join(', ')}`);
+  }
+
+  for (const block of scene.text) {
+    lines.push(`Visible text${block.location ? ` on ${block.location}` : ''}: "${block.content}"`);
+  }
+
+  for (const screen of scene.screens) {
+    lines.push(`Screen (${screen.kind}): ${screen.description}`);
+    if (screen.code) {
+      const code = screen.code.length > MAX_CODE_CHARS
+        ? `${screen.code.slice(0, MAX_CODE_CHARS)}…`
+        : screen.code;
+      lines.push(`Code${screen.language ? ` (${screen.language})` : ''}:\n${code}`);
+    }
+  }
+
+  return lines.join('\n');
+}
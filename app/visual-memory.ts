@@ -0,0 +1,244 @@
+import { SessionClient } from './session-client';
+import { UsageReport } from './secure-vision';
+import { StructuredScene } from './vision-types';
+import { formatVisualContext } from './visual-context';
+
+export interface VisualMemoryOptions {
+  /** Entries younger than this make up the rolling summary. */
+  windowMs: number;
+  /** Word overlap above which two sentences count as the same fact. */
+  sentenceSimilarity: number;
+  /** Word overlap above which a new description merges into the last entry. */
+  duplicateSimilarity: number;
+  /** Number of expired entries that triggers a summarisation call. */
+  compactAfter: number;
+  /** Merges an earlier summary and observations into one short summary. */
+  summarize?: (previousSummary: string, observations: string[]) => Promise<string>;
+}
+
+interface MemoryEntry {
+  text: string;
+  scene?: StructuredScene;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+const DEFAULT_OPTIONS: VisualMemoryOptions = {
+  windowMs: 2 * 60 * 1000,
+  sentenceSimilarity: 0.6,
+  duplicateSimilarity: 0.8,
+  compactAfter: 4,
+};
+
+/** Limits /api/memory/summarize enforces; `compact` stays within them. */
+export const MAX_OBSERVATIONS = 30;
+export const MAX_OBSERVATION_LENGTH = 1000;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean));
+}
+
+function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Decides what the assistant needs to hear about the scene. Near-duplicate
+ * descriptions are merged, later ones are reduced to what changed, recent
+ * entries form a rolling summary and expired ones are compacted through a
+ * summarisation call.
+ */
+export class VisualMemory {
+  private options: VisualMemoryOptions;
+  private entries: MemoryEntry[] = [];
+  private expired: MemoryEntry[] = [];
+  private compactedSummary = '';
+  private compacting = false;
+  // Sentences already sent for a streamed frame still in progress.
+  private pending: { frameId: string; sent: string[] } | null = null;
+  private changedSinceSummary = false;
+
+  constructor(options?: Partial<VisualMemoryOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Records a description and returns the system message to send, or null
+   * when nothing new was seen. Partial (streamed) descriptions are diffed
+   * but only stored once final.
+   */
+  observe(
+    description: string,
+    scene?: StructuredScene,
+    update?: { frameId?: string; partial?: boolean; changes?: string | null },
+    now = Date.now()
+  ): string | null {
+    const last = this.entries[this.entries.length - 1];
+    const frameId = update?.frameId ?? '';
+    const pendingSent = this.pending && this.pending.frameId === frameId ? this.pending.sent : [];
+
+    // The route's own change report wins over word overlap when present.
+    const reportedChanges = update?.partial ? undefined : update?.changes;
+    const duplicate = reportedChanges === undefined
+      ? similarity(last?.text ?? '', description) >= this.options.duplicateSimilarity
+      : reportedChanges === null;
+
+    if (!update?.partial && last && pendingSent.length === 0 && duplicate) {
+      last.lastSeen = now;
+      this.pending = null;
+      return null;
+    }
+
+    const known = [...(last ? sentences(last.text) : []), ...pendingSent];
+    const fresh = sentences(description).filter(sentence =>
+      !known.some(k => similarity(k, sentence) >= this.options.sentenceSimilarity)
+    );
+
+    let message: string | null = null;
+    if (!last && pendingSent.length === 0 && !update?.partial) {
+      message = formatVisualContext(description, scene);
+    } else if (last && reportedChanges) {
+      message = `Visual change: ${reportedChanges}`;
+    } else {
+      const parts = [...fresh];
+      if (scene && !update?.partial) parts.push(...this.sceneDelta(last?.scene, scene));
+      if (parts.length > 0) {
+        message = `${last ? 'Visual change' : 'Visual context update'}: ${parts.join(' ')}`;
+      }
+    }
+
+    if (update?.partial) {
+      this.pending = { frameId, sent: [...pendingSent, ...fresh] };
+      return message;
+    }
+
+    this.pending = null;
+    this.entries.push({ text: description, scene, firstSeen: now, lastSeen: now });
+    this.changedSinceSummary = true;
+    this.expire(now);
+    return message;
+  }
+
+  /**
+   * "Visual memory (last 2 minutes): …", prefixed by the compacted summary of
+   * anything older. Returns null when nothing changed since the last call.
+   */
+  takeRollingSummary(now = Date.now()): string | null {
+    this.expire(now);
+    if (!this.changedSinceSummary) return null;
+    this.changedSinceSummary = false;
+    return this.getRollingSummary(now);
+  }
+
+  /** The rolling summary regardless of what was already sent, or null when empty. */
+  getRollingSummary(now = Date.now()): string | null {
+    this.expire(now);
+    const minutes = Math.round(this.options.windowMs / 60000);
+    const recent = this.entries.map(entry => `${formatTime(entry.firstSeen)} ${entry.text}`).join(' | ');
+    const parts = [];
+    if (this.compactedSummary) parts.push(`Earlier: ${this.compactedSummary}`);
+    if (recent) parts.push(`Last ${minutes} minute${minutes === 1 ? '' : 's'}: ${recent}`);
+    return parts.length > 0 ? `Visual memory. ${parts.join(' ')}` : null;
+  }
+
+  /**
+   * Folds expired entries into the compacted summary once enough have
+   * accumulated. Without a `summarize` function the newest few are kept.
+   */
+  async compact(): Promise<void> {
+    if (this.compacting || this.expired.length < this.options.compactAfter) return;
+    this.compacting = true;
+
+    const batch = this.expired;
+    this.expired = [];
+    // Reading and code descriptions run long; an over-long observation would
+    // be rejected every time and keep the batch queued forever.
+    const observations = batch
+      .slice(-MAX_OBSERVATIONS)
+      .map(entry => `${formatTime(entry.firstSeen)}: ${entry.text}`)
+      .map(text => text.length > MAX_OBSERVATION_LENGTH ? `${text.slice(0, MAX_OBSERVATION_LENGTH - 1)}…` : text);
+
+    try {
+      this.compactedSummary = this.options.summarize
+        ? await this.options.summarize(this.compactedSummary, observations)
+        : observations.slice(-3).join(' ');
+    } catch {
+      // Keep the entries for the next attempt rather than losing them.
+      this.expired = [...batch, ...this.expired].slice(-MAX_OBSERVATIONS);
+    } finally {
+      this.compacting = false;
+    }
+  }
+
+  getLastDescription(): string {
+    return this.entries[this.entries.length - 1]?.text ?? '';
+  }
+
+  reset() {
+    this.entries = [];
+    this.expired = [];
+    this.compactedSummary = '';
+    this.pending = null;
+    this.changedSinceSummary = false;
+  }
+
+  private expire(now: number) {
+    // The newest entry always stays so later frames can be diffed against it.
+    while (this.entries.length > 1 && now - this.entries[0].lastSeen > this.options.windowMs) {
+      this.expired.push(this.entries.shift()!);
+    }
+  }
+
+  private sceneDelta(previous: StructuredScene | undefined, scene: StructuredScene): string[] {
+    const parts: string[] = [];
+    const before = new Set(previous?.objects.map(o => o.name.toLowerCase()) ?? []);
+    const after = new Set(scene.objects.map(o => o.name.toLowerCase()));
+
+    const appeared = [...after].filter(name => !before.has(name));
+    const gone = [...before].filter(name => !after.has(name));
+    if (appeared.length > 0) parts.push(`Now visible: ${appeared.join(', ')}.`);
+    if (gone.length > 0) parts.push(`No longer visible: ${gone.join(', ')}.`);
+
+    const seenText = new Set(previous?.text.map(t => t.content) ?? []);
+    for (const block of scene.text) {
+      if (!seenText.has(block.content)) parts.push(`New text: "${block.content}".`);
+    }
+
+    if (previous && previous.peopleCount !== scene.peopleCount) {
+      parts.push(`People visible: ${scene.peopleCount}.`);
+    }
+    return parts;
+  }
+}
+
+/**
+ * `summarize` implementation backed by /api/memory/summarize. `onUsage`
+ * receives the token usage the summary route reports.
+ */
+export function createMemorySummarizer(client: SessionClient, onUsage?: (usage: UsageReport) => void) {
+  return async (previousSummary: string, observations: string[]): Promise<string> => {
+    const response = await client.fetch('/api/memory/summarize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ previousSummary, observations }),
+    });
+    if (!response.ok) {
+      throw new Error(`Memory summary failed: ${response.status}`);
+    }
+    const data = await response.json();
+    if (data.usage) onUsage?.(data.usage);
+    return typeof data.summary === 'string' ? data.summary : '';
+  };
+}
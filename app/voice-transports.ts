@@ -0,0 +1,483 @@
+import Vapi, { AddMessageMessage } from '@vapi-ai/web';
+import {
+  ChatMessage,
+  ChatRequest,
+  MAX_CHAT_CONTEXT_ITEMS,
+  MAX_CHAT_CONTEXT_LENGTH,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CHAT_MESSAGES,
+  clipChatText,
+} from './chat';
+import { UsageReport } from './secure-vision';
+import { SessionClient } from './session-client';
+import { ToolCallsMessage, isToolCallsMessage } from './vision-tools';
+
+export type VoiceTransportKind = 'vapi' | 'web-speech' | 'local';
+
+/** The arguments each event's listeners are called with. */
+export interface VoiceTransportEvents {
+  'call-start': [];
+  'call-end': [];
+  /** A final utterance from either side of the conversation. */
+  transcript: [role: 'user' | 'assistant', text: string];
+  /** See `parseVisionToolCalls`; answer each call with `sendToolResult`. */
+  'tool-calls': [message: ToolCallsMessage];
+  /** The call failed; `call-end` follows if it was running. Usually a `VoiceTransportError`. */
+  error: [error: Error];
+}
+
+export type VoiceTransportListener<E extends keyof VoiceTransportEvents> = (...args: VoiceTransportEvents[E]) => void;
+
+/**
+ * A transport failure. `transient` errors (dropped connections, network
+ * hiccups) are worth reconnecting after; the others (bad credentials, a
+ * blocked microphone) fail the same way every time.
+ */
+export class VoiceTransportError extends Error {
+  constructor(message: string, public transient: boolean) {
+    super(message);
+    this.name = 'VoiceTransportError';
+  }
+}
+
+/** Unknown errors count as transient; retries are bounded by the caller. */
+export function isTransientVoiceError(error: unknown): boolean {
+  if (error instanceof VoiceTransportError) return error.transient;
+  const name = (error as { name?: unknown } | null)?.name;
+  return name !== 'NotAllowedError' && name !== 'SecurityError' && name !== 'NotFoundError';
+}
+
+/**
+ * The voice side of a call. The page only talks to this interface, so the
+ * camera and vision features work the same whichever assistant is behind it.
+ */
+export interface VoiceTransport {
+  readonly kind: VoiceTransportKind;
+  readonly label: string;
+  /** Starts a call. Resolves with the provider's call id, if it has one. */
+  start(): Promise<{ callId: string | null }>;
+  stop(): void;
+  /**
+   * Adds a system message to the conversation. With `respond` the assistant
+   * answers it right away; otherwise it is context for the next turn.
+   */
+  addContext(content: string, options?: { respond?: boolean }): void;
+  /** Speaks `text` as the assistant, outside the model's own turns. */
+  say(text: string): void;
+  /** Answers a tool call from a `tool-calls` event; the assistant responds to it. */
+  sendToolResult(call: { id: string; name: string }, result: string): void;
+  /** Returns an unsubscribe function. */
+  on<E extends keyof VoiceTransportEvents>(event: E, listener: VoiceTransportListener<E>): () => void;
+  destroy(): void;
+}
+
+abstract class BaseVoiceTransport implements VoiceTransport {
+  abstract readonly kind: VoiceTransportKind;
+  abstract readonly label: string;
+  private listeners: { [E in keyof VoiceTransportEvents]: Set<VoiceTransportListener<E>> } = {
+    'call-start': new Set(),
+    'call-end': new Set(),
+    transcript: new Set(),
+    'tool-calls': new Set(),
+    error: new Set(),
+  };
+
+  abstract start(): Promise<{ callId: string | null }>;
+  abstract stop(): void;
+  abstract addContext(content: string, options?: { respond?: boolean }): void;
+  abstract say(text: string): void;
+
+  /** Transports without native tool calls hand the result over as context. */
+  sendToolResult(call: { id: string; name: string }, result: string) {
+    this.addContext(`Result of ${call.name} (tool call ${call.id}): ${result}`, { respond: true });
+  }
+
+  on<E extends keyof VoiceTransportEvents>(event: E, listener: VoiceTransportListener<E>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  destroy() {
+    try {
+      this.stop();
+    } catch {
+      // Nothing to clean up if the call never started.
+    }
+    Object.values(this.listeners).forEach(listeners => listeners.clear());
+  }
+
+  protected emit<E extends keyof VoiceTransportEvents>(event: E, ...args: VoiceTransportEvents[E]) {
+    this.listeners[event].forEach(listener => listener(...args));
+  }
+}
+
+// The shapes Vapi and Daily report errors in; any field may be missing.
+interface VapiErrorFields {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  errorMsg?: unknown;
+  error?: { status?: unknown; statusCode?: unknown; message?: unknown; type?: unknown } | null;
+}
+
+function readVapiError(error: unknown): VapiErrorFields {
+  return typeof error === 'object' && error !== null ? error : {};
+}
+
+function toVapiError(error: unknown): VoiceTransportError {
+  if (error instanceof VoiceTransportError) return error;
+  const fields = readVapiError(error);
+  const status = Number(fields.status ?? fields.error?.status ?? fields.error?.statusCode);
+  const message = [fields.message, fields.error?.message, fields.errorMsg].find(value => typeof value === 'string');
+  // Bad keys, unknown assistants and exhausted credit come back as 4xx.
+  const permanent = (status >= 400 && status < 500 && status !== 408 && status !== 429)
+    || fields.name === 'NotAllowedError';
+  return new VoiceTransportError(typeof message === 'string' ? message : 'Vapi error', !permanent);
+}
+
+interface VapiTranscriptMessage {
+  type: 'transcript';
+  transcriptType: 'final';
+  role: 'user' | 'assistant';
+  transcript?: string;
+}
+
+function isFinalTranscript(message: unknown): message is VapiTranscriptMessage {
+  const candidate = message as Partial<VapiTranscriptMessage> | null;
+  return candidate?.type === 'transcript' && candidate.transcriptType === 'final'
+    && (candidate.role === 'user' || candidate.role === 'assistant');
+}
+
+// Vapi honours `triggerResponseEnabled`, which its message types don't declare.
+type VapiAddMessage = AddMessageMessage & { triggerResponseEnabled: boolean };
+
+/** Vapi call with a configured assistant. Vision tools need the assistant to define them. */
+export class VapiVoiceTransport extends BaseVoiceTransport {
+  readonly kind = 'vapi';
+  readonly label = 'Vapi';
+  private vapi: Vapi;
+
+  constructor(publicKey: string, private assistantId: string) {
+    super();
+    this.vapi = new Vapi(publicKey);
+
+    this.vapi.on('message', (message: unknown) => {
+      if (isToolCallsMessage(message)) {
+        this.emit('tool-calls', message);
+        return;
+      }
+      if (isFinalTranscript(message)) {
+        this.emit('transcript', message.role, message.transcript ?? '');
+      }
+    });
+    this.vapi.on('call-start', () => this.emit('call-start'));
+    this.vapi.on('call-end', () => this.emit('call-end'));
+    this.vapi.on('error', (error: unknown) => {
+      const fields = readVapiError(error);
+      // Vapi reports unsupported audio processors as errors but the call continues.
+      if (typeof fields.message === 'string' && fields.message.includes('audio processor')) return;
+      // An assistant hanging up ejects us from the room; `call-end` follows.
+      if (fields.error?.type === 'ejected' || fields.errorMsg === 'Meeting has ended') return;
+      this.emit('error', toVapiError(error));
+    });
+  }
+
+  async start() {
+    try {
+      const call = await this.vapi.start(this.assistantId);
+      return { callId: call?.id ?? null };
+    } catch (error) {
+      throw toVapiError(error);
+    }
+  }
+
+  stop() {
+    this.vapi.stop();
+  }
+
+  addContext(content: string, options?: { respond?: boolean }) {
+    this.send({
+      type: 'add-message',
+      message: { role: 'system', content },
+      triggerResponseEnabled: options?.respond ?? false,
+    });
+  }
+
+  say(text: string) {
+    this.vapi.say(text);
+  }
+
+  sendToolResult(call: { id: string; name: string }, result: string) {
+    this.send({
+      type: 'add-message',
+      message: { role: 'tool', tool_call_id: call.id, content: result },
+      triggerResponseEnabled: true,
+    });
+  }
+
+  destroy() {
+    super.destroy();
+    this.vapi.removeAllListeners();
+  }
+
+  private send(message: VapiAddMessage) {
+    this.vapi.send(message);
+  }
+}
+
+// The Web Speech recognition API is not in TypeScript's DOM lib yet.
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+// Recognition errors that retrying won't fix; `network` and the like are transient.
+const PERMANENT_RECOGNITION_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported']);
+
+const speechScope = globalThis as typeof globalThis & {
+  SpeechRecognition?: new () => SpeechRecognitionLike;
+  webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+};
+
+function getSpeechRecognition(): (new () => SpeechRecognitionLike) | null {
+  return speechScope.SpeechRecognition ?? speechScope.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Browser speech recognition and synthesis around the text endpoint
+ * `/api/chat`, so calls work without a Vapi account. Recognition pauses
+ * while the reply is spoken so the assistant doesn't hear itself. There are
+ * no vision tools; the assistant relies on the context messages. Each
+ * reply's token usage goes to `onUsage`, so it counts towards the call's
+ * budget like vision requests do.
+ */
+export class WebSpeechVoiceTransport extends BaseVoiceTransport {
+  readonly kind = 'web-speech';
+  readonly label = 'Browser speech';
+  private recognition: SpeechRecognitionLike | null = null;
+  // Camera context and spoken turns are kept apart so frequent vision
+  // updates never push the user's turns out of the window.
+  private context: string[] = [];
+  private messages: ChatMessage[] = [];
+  private active = false;
+  private speaking = false;
+  private pendingReply: AbortController | null = null;
+
+  constructor(
+    private client: SessionClient,
+    private onUsage?: (usage: UsageReport) => void,
+    private lang = 'en-US'
+  ) {
+    super();
+  }
+
+  static isSupported(): boolean {
+    return getSpeechRecognition() !== null && typeof speechSynthesis !== 'undefined';
+  }
+
+  async start() {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) throw new VoiceTransportError('Speech recognition is not supported in this browser', false);
+
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = this.lang;
+    recognition.onresult = event => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const text = event.results[i].isFinal ? event.results[i][0].transcript.trim() : '';
+        if (text) this.handleUtterance(text);
+      }
+    };
+    // Recognition stops by itself after silence; keep listening for the whole call.
+    recognition.onend = () => {
+      if (this.active && !this.speaking) this.listen();
+    };
+    recognition.onerror = event => {
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      this.emit('error', new VoiceTransportError(
+        `Speech recognition failed: ${event.error}`,
+        !PERMANENT_RECOGNITION_ERRORS.has(event.error)
+      ));
+      this.stop();
+    };
+
+    this.recognition = recognition;
+    this.context = [];
+    this.messages = [];
+    this.active = true;
+    this.listen();
+    this.emit('call-start');
+    return { callId: null };
+  }
+
+  stop() {
+    if (!this.active) return;
+    this.active = false;
+    this.pendingReply?.abort();
+    this.pendingReply = null;
+    this.recognition?.stop();
+    this.recognition = null;
+    speechSynthesis.cancel();
+    this.emit('call-end');
+  }
+
+  addContext(content: string, options?: { respond?: boolean }) {
+    if (!this.active) return;
+    this.context.push(clipChatText(content, MAX_CHAT_CONTEXT_LENGTH));
+    if (this.context.length > MAX_CHAT_CONTEXT_ITEMS) {
+      this.context.splice(0, this.context.length - MAX_CHAT_CONTEXT_ITEMS);
+    }
+    if (options?.respond) this.reply();
+  }
+
+  say(text: string) {
+    if (!this.active) return;
+    this.push({ role: 'assistant', content: text });
+    this.emit('transcript', 'assistant', text);
+    this.speak(text);
+  }
+
+  private handleUtterance(text: string) {
+    this.push({ role: 'user', content: text });
+    this.emit('transcript', 'user', text);
+    this.reply();
+  }
+
+  private push(message: ChatMessage) {
+    this.messages.push({ ...message, content: clipChatText(message.content, MAX_CHAT_MESSAGE_LENGTH) });
+    if (this.messages.length > MAX_CHAT_MESSAGES) {
+      this.messages.splice(0, this.messages.length - MAX_CHAT_MESSAGES);
+    }
+  }
+
+  /** Asks `/api/chat` for the next assistant turn; a newer turn cancels an older one. */
+  private async reply() {
+    this.pendingReply?.abort();
+    const controller = new AbortController();
+    this.pendingReply = controller;
+
+    try {
+      const response = await this.client.fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ context: this.context, messages: this.messages } satisfies ChatRequest),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Chat request failed: ${response.status}`);
+      }
+      const { reply, usage } = await response.json();
+      if (usage) this.onUsage?.(usage);
+      if (controller.signal.aborted || !this.active || typeof reply !== 'string' || !reply) return;
+      this.say(reply);
+    } catch {
+      // A failed turn doesn't end the call; the user can simply ask again.
+      if (!controller.signal.aborted && this.active) {
+        this.say("Sorry, I couldn't answer that. Please try again.");
+      }
+    } finally {
+      if (this.pendingReply === controller) this.pendingReply = null;
+    }
+  }
+
+  private speak(text: string) {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = this.lang;
+    utterance.onend = utterance.onerror = () => {
+      this.speaking = false;
+      if (this.active) this.listen();
+    };
+    this.speaking = true;
+    this.recognition?.stop();
+    speechSynthesis.speak(utterance);
+  }
+
+  private listen() {
+    try {
+      this.recognition?.start();
+    } catch {
+      // Already listening.
+    }
+  }
+}
+
+/**
+ * Transport without audio for tests and development. Records what the app
+ * sends and lets the caller play the assistant's side.
+ */
+export class LocalVoiceTransport extends BaseVoiceTransport {
+  readonly kind = 'local';
+  readonly label = 'Local';
+  readonly context: { content: string; respond: boolean }[] = [];
+  readonly spoken: string[] = [];
+  readonly toolResults: { id: string; name: string; result: string }[] = [];
+  private active = false;
+
+  async start() {
+    this.active = true;
+    this.emit('call-start');
+    return { callId: `local_${Date.now()}` };
+  }
+
+  stop() {
+    if (!this.active) return;
+    this.active = false;
+    this.emit('call-end');
+  }
+
+  addContext(content: string, options?: { respond?: boolean }) {
+    this.context.push({ content, respond: options?.respond ?? false });
+  }
+
+  say(text: string) {
+    this.spoken.push(text);
+    this.emit('transcript', 'assistant', text);
+  }
+
+  sendToolResult(call: { id: string; name: string }, result: string) {
+    this.toolResults.push({ ...call, result });
+  }
+
+  /** Plays a user utterance into the call. */
+  simulateTranscript(role: 'user' | 'assistant', text: string) {
+    this.emit('transcript', role, text);
+  }
+
+  /** Delivers a `tool-calls` message as the assistant would. */
+  simulateToolCalls(message: ToolCallsMessage) {
+    this.emit('tool-calls', message);
+  }
+}
+
+/**
+ * Picks the transport: `preferred` if it can run, otherwise Vapi when
+ * credentials are configured, then browser speech. Null when neither is
+ * available.
+ */
+export function createVoiceTransport(options: {
+  preferred?: VoiceTransportKind;
+  vapiPublicKey?: string;
+  vapiAssistantId?: string;
+  client: SessionClient;
+  /** Token usage of replies the app pays for (browser speech). */
+  onUsage?: (usage: UsageReport) => void;
+}): VoiceTransport | null {
+  const { preferred, vapiPublicKey, vapiAssistantId, client, onUsage } = options;
+  const vapiConfigured = Boolean(vapiPublicKey && vapiAssistantId);
+
+  if (preferred === 'local') return new LocalVoiceTransport();
+  if (preferred === 'web-speech' && WebSpeechVoiceTransport.isSupported()) return new WebSpeechVoiceTransport(client, onUsage);
+  if (vapiConfigured) return new VapiVoiceTransport(vapiPublicKey!, vapiAssistantId!);
+  if (WebSpeechVoiceTransport.isSupported()) return new WebSpeechVoiceTransport(client, onUsage);
+  return null;
+}
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as summarize } from "@/app/api/memory/summarize/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { jsonRequest, newSession, rawRequest } from "../helpers";
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("POST /api/memory/summarize", () => {
+  it("summarizes observations and charges the session budget", async () => {
+    const token = await newSession();
+    const response = await summarize(jsonRequest("/api/memory/summarize", {
+      observations: ["A mug on a desk. It is red.", "A laptop opens."]
+    }, token));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).summary).toBe("A mug on a desk. A laptop opens.");
+    expect(response.headers.get("X-Session-Budget-Remaining")).toBe("299");
+  });
+
+  it("rejects observations over the length limit", async () => {
+    const token = await newSession();
+    const response = await summarize(jsonRequest("/api/memory/summarize", {
+      observations: ["x".repeat(1001)]
+    }, token));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("answers malformed JSON with 400", async () => {
+    const token = await newSession();
+    const response = await summarize(rawRequest("/api/memory/summarize", "{\"observations\":", token));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "invalid_json" });
+  });
+
+  it("refuses bodies over the size limit before parsing them", async () => {
+    const token = await newSession();
+    const response = await summarize(rawRequest("/api/memory/summarize", JSON.stringify({
+      observations: ["x".repeat(1_000_000)]
+    }), token));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: "body_too_large" });
+  });
+});
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as createSession } from "@/app/api/session/route";
+import { POST as vision } from "@/app/api/vision/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { ORIGIN, jsonRequest, pngBase64 } from "../helpers";
+
+function sessionRequest(origin: string, token?: string): NextRequest {
+  return new NextRequest(`${ORIGIN}/api/session`, {
+    method: "POST",
+    headers: { origin, ...(token ? { authorization: `Bearer ${token}` } : {}) }
+  });
+}
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("POST /api/session", () => {
+  it("issues a token to an allowed origin", async () => {
+    const response = await createSession(sessionRequest(ORIGIN));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, budget: 300 });
+    expect(typeof body.token).toBe("string");
+  });
+
+  it("refuses other origins", async () => {
+    const response = await createSession(sessionRequest("https://evil.example"));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("is required by /api/vision", async () => {
+    const response = await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([200, 30, 30]) }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: "missing_token" });
+  });
+
+  it("refreshes a token into the same session without resetting its budget", async () => {
+    const issued = await (await createSession(sessionRequest(ORIGIN))).json();
+    await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([200, 30, 30]) }, issued.token));
+
+    const refreshed = await (await createSession(sessionRequest(ORIGIN, issued.token))).json();
+    const response = await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([30, 200, 30]) }, refreshed.token));
+
+    expect(refreshed.sessionId).toBe(issued.sessionId);
+    expect(response.headers.get("X-Session-Budget-Remaining")).toBe("298");
+  });
+
+  it("starts a new session for an unusable token", async () => {
+    const issued = await (await createSession(sessionRequest(ORIGIN))).json();
+
+    const response = await createSession(sessionRequest(ORIGIN, `${issued.token}x`));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).sessionId).not.toBe(issued.sessionId);
+  });
+});
@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST as createSession } from "@/app/api/session/route";
+import { POST as uploadFrame } from "@/app/api/vapi/frame/route";
+import { POST as tools } from "@/app/api/vapi/tools/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { ORIGIN, jsonRequest, newSession, pngBase64, rawRequest } from "../helpers";
+
+const SECRET = "test-webhook-secret";
+
+async function refresh(token: string): Promise<string> {
+  const response = await createSession(new NextRequest(`${ORIGIN}/api/session`, {
+    method: "POST",
+    headers: { origin: ORIGIN, authorization: `Bearer ${token}` }
+  }));
+  return (await response.json()).token;
+}
+
+function toolCall(callId: string): NextRequest {
+  return new NextRequest(`${ORIGIN}/api/vapi/tools`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-vapi-secret": SECRET },
+    body: JSON.stringify({
+      message: {
+        type: "tool-calls",
+        call: { id: callId },
+        toolCallList: [{ id: "tool_1", function: { name: "describe_scene", arguments: "{}" } }]
+      }
+    })
+  });
+}
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  process.env.VAPI_WEBHOOK_SECRET = SECRET;
+});
+
+afterEach(() => {
+  delete process.env.VAPI_WEBHOOK_SECRET;
+});
+
+describe("POST /api/vapi/frame", () => {
+  it("keeps accepting the owning session's frames after its token is refreshed", async () => {
+    const callId = `call_${Math.random()}`;
+    const token = await newSession();
+    const first = await uploadFrame(jsonRequest("/api/vapi/frame", { callId, imageBase64: pngBase64([200, 30, 30]) }, token));
+
+    const refreshed = await refresh(token);
+    const second = await uploadFrame(jsonRequest("/api/vapi/frame", { callId, imageBase64: pngBase64([30, 200, 30]) }, refreshed));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+  });
+
+  it("refuses frames for a call bound to another session", async () => {
+    const callId = `call_${Math.random()}`;
+    await uploadFrame(jsonRequest("/api/vapi/frame", { callId, imageBase64: pngBase64([200, 30, 30]) }, await newSession()));
+
+    const response = await uploadFrame(jsonRequest("/api/vapi/frame", { callId, imageBase64: pngBase64([30, 200, 30]) }, await newSession()));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: "call_not_owned" });
+  });
+
+  it("answers malformed JSON with 400", async () => {
+    const response = await uploadFrame(rawRequest("/api/vapi/frame", "{\"callId\":", await newSession()));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "invalid_json" });
+  });
+
+  it("lets the tool webhook answer from the uploaded frame", async () => {
+    const callId = `call_${Math.random()}`;
+    expect((await (await tools(toolCall(callId))).json()).results[0].result).toMatch(/No camera frame/);
+
+    await uploadFrame(jsonRequest("/api/vapi/frame", { callId, imageBase64: pngBase64([200, 30, 30]) }, await newSession()));
+    const { results } = await (await tools(toolCall(callId))).json();
+
+    expect(results[0]).toMatchObject({ toolCallId: "tool_1", name: "describe_scene" });
+    expect(results[0].result).not.toMatch(/No camera frame/);
+  });
+});
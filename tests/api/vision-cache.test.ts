@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as vision } from "@/app/api/vision/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { jsonRequest, newSession, pngBase64 } from "../helpers";
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("POST /api/vision caching", () => {
+  it("answers a repeated request from the cache without usage", async () => {
+    const token = await newSession();
+    const image = pngBase64([30, 200, 30]);
+
+    const first = await (await vision(jsonRequest("/api/vision", { imageBase64: image }, token))).json();
+    const second = await (await vision(jsonRequest("/api/vision", { imageBase64: image }, token))).json();
+
+    expect(first).toMatchObject({ cached: false });
+    expect(first.usage.totalTokens).toBeGreaterThan(0);
+    expect(second).toMatchObject({ description: first.description, cached: true });
+    expect(second.usage).toBeUndefined();
+  });
+
+  it("keeps sessions' cache entries apart", async () => {
+    const image = pngBase64([30, 200, 90]);
+
+    await vision(jsonRequest("/api/vision", { imageBase64: image }, await newSession()));
+    const other = await (await vision(jsonRequest("/api/vision", { imageBase64: image }, await newSession()))).json();
+
+    expect(other.cached).toBe(false);
+  });
+
+  it("shares one upstream call between identical requests in flight", async () => {
+    const token = await newSession();
+    const image = pngBase64([90, 200, 30]);
+
+    const [first, second] = await Promise.all([
+      vision(jsonRequest("/api/vision", { imageBase64: image }, token)).then(response => response.json()),
+      vision(jsonRequest("/api/vision", { imageBase64: image }, token)).then(response => response.json())
+    ]);
+
+    expect(second.description).toBe(first.description);
+    expect([first.cached, second.cached].sort()).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as vision } from "@/app/api/vision/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { jsonRequest, newSession, pngBase64 } from "../helpers";
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("POST /api/vision rate limits", () => {
+  it("rejects a session's burst past the bucket size with Retry-After", async () => {
+    const token = await newSession();
+    const responses = [];
+    for (let i = 0; i < 4; i++) {
+      responses.push(await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([i * 40, 30, 30]) }, token)));
+    }
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200, 429]);
+    expect(responses[3].headers.get("Retry-After")).not.toBeNull();
+    expect(responses[0].headers.get("RateLimit-Policy")).toBe("3;w=9, 1000;w=86400");
+  });
+
+  it("keeps separate buckets for separate sessions", async () => {
+    const first = await newSession();
+    const second = await newSession();
+    for (let i = 0; i < 3; i++) {
+      await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([i * 40, 60, 30]) }, first));
+    }
+
+    const response = await vision(jsonRequest("/api/vision", { imageBase64: pngBase64([0, 60, 90]) }, second));
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as visionStream } from "@/app/api/vision/stream/route";
+import { MemoryRateLimitStore, setRateLimitStore } from "@/app/server/rate-limit";
+import { jsonRequest, newSession, parseEvents, pngBase64 } from "../helpers";
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("POST /api/vision/stream", () => {
+  it("streams chunks, then a done event with the full description", async () => {
+    const token = await newSession();
+    const response = await visionStream(jsonRequest("/api/vision/stream", { imageBase64: pngBase64([30, 30, 200]) }, token));
+    const events = parseEvents(await response.text());
+
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    const chunks = events.filter(event => event.event === "chunk");
+    const done = events[events.length - 1];
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(done.event).toBe("done");
+    expect(done.data).toMatchObject({ success: true });
+    expect(chunks.map(event => event.data.text).join("").trim()).toBe(done.data.description);
+  });
+
+  it("holds the Changes: line back from the chunks", async () => {
+    const token = await newSession();
+    const response = await visionStream(jsonRequest("/api/vision/stream", {
+      imageBase64: pngBase64([30, 200, 200]),
+      previousDescription: "An empty room."
+    }, token));
+    const events = parseEvents(await response.text());
+
+    const chunks = events.filter(event => event.event === "chunk").map(event => event.data.text).join("");
+    const done = events[events.length - 1].data;
+    expect(chunks).not.toContain("Changes:");
+    expect(chunks.trim()).toBe(done.description);
+    expect(typeof done.changes).toBe("string");
+  });
+
+  it("reports rejected requests as JSON before the stream starts", async () => {
+    const response = await visionStream(jsonRequest("/api/vision/stream", { imageBase64: pngBase64([30, 30, 200]) }));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("content-type")).toContain("application/json");
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { AdaptiveCaptureController } from "@/app/capture-controller";
+
+describe("AdaptiveCaptureController", () => {
+  it("never captures faster than the server's default refill interval, however busy the scene", () => {
+    const controller = new AdaptiveCaptureController();
+    let now = 0;
+
+    for (let i = 0; i < 20; i++) {
+      for (let j = 0; j < 10; j++) controller.recordSceneCheck(true);
+      now += 10_000;
+      controller.update({ avgProcessingTime: 500, successRate: 1 }, now);
+    }
+
+    expect(controller.getSettings().intervalMs).toBe(3000);
+  });
+
+  it("backs off on failures and recovers once the scene is busy again", () => {
+    const controller = new AdaptiveCaptureController();
+
+    controller.update({ avgProcessingTime: 500, successRate: 0.5 }, 10_000);
+    expect(controller.getSettings().intervalMs).toBe(4500);
+
+    for (let j = 0; j < 10; j++) controller.recordSceneCheck(true);
+    controller.update({ avgProcessingTime: 500, successRate: 1 }, 20_000);
+    expect(controller.getSettings().intervalMs).toBe(3600);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CallStatus, CallSupervisor } from "@/app/connection-state";
+import { LocalVoiceTransport, VoiceTransportError } from "@/app/voice-transports";
+
+/** Local transport whose connection can be dropped from the test. */
+class DroppableTransport extends LocalVoiceTransport {
+  starts = 0;
+
+  async start() {
+    this.starts++;
+    return super.start();
+  }
+
+  drop(error: Error) {
+    this.emit("error", error);
+  }
+}
+
+function track(supervisor: CallSupervisor): CallStatus[] {
+  const statuses: CallStatus[] = [];
+  supervisor.subscribe(state => statuses.push(state.status));
+  return statuses;
+}
+
+describe("CallSupervisor", () => {
+  let transport: DroppableTransport;
+  let supervisor: CallSupervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    transport = new DroppableTransport();
+    supervisor = new CallSupervisor(transport, { maxAttempts: 2, baseDelayMs: 1000, maxDelayMs: 4000 });
+  });
+
+  afterEach(() => {
+    supervisor.destroy();
+    transport.destroy();
+    vi.useRealTimers();
+  });
+
+  it("connects and records the call id", async () => {
+    const statuses = track(supervisor);
+    await supervisor.start();
+
+    expect(statuses).toEqual(["connecting", "active", "active"]);
+    expect(supervisor.getState().callId).toMatch(/^local_/);
+  });
+
+  it("returns to idle when the user hangs up", async () => {
+    await supervisor.start();
+    supervisor.stop();
+
+    expect(supervisor.getState()).toMatchObject({ status: "idle", callId: null });
+  });
+
+  it("reconnects after a transient error, with backoff", async () => {
+    await supervisor.start();
+    const statuses = track(supervisor);
+
+    transport.drop(new VoiceTransportError("Network lost", true));
+    expect(supervisor.getState()).toMatchObject({ status: "reconnecting", attempt: 1, error: "Network lost" });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(transport.starts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.starts).toBe(2);
+    expect(supervisor.getState()).toMatchObject({ status: "active", attempt: 0, error: null });
+    expect(statuses).toContain("reconnecting");
+  });
+
+  it("gives up after the configured number of attempts", async () => {
+    await supervisor.start();
+
+    transport.drop(new VoiceTransportError("Network lost", true));
+    await vi.advanceTimersByTimeAsync(1000);
+    transport.drop(new VoiceTransportError("Network lost", true));
+    // The attempt counter resets once a reconnect succeeds, so drops between
+    // successful reconnects never exhaust it.
+    expect(supervisor.getState().attempt).toBe(1);
+
+    supervisor.stop();
+    await supervisor.start();
+    const failing = new VoiceTransportError("Network lost", true);
+    vi.spyOn(transport, "start").mockRejectedValue(failing);
+    transport.drop(failing);
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(supervisor.getState().status).toBe("failed");
+    expect(supervisor.getState().error).toContain("gave up after 2 reconnect attempts");
+  });
+
+  it("fails at once on errors that retrying won't fix", async () => {
+    await supervisor.start();
+
+    transport.drop(new VoiceTransportError("Microphone blocked", false));
+
+    expect(supervisor.getState()).toMatchObject({ status: "failed", error: "Microphone blocked" });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(transport.starts).toBe(1);
+  });
+
+  it("cancels a pending reconnect on stop", async () => {
+    await supervisor.start();
+    transport.drop(new VoiceTransportError("Network lost", true));
+
+    supervisor.stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(supervisor.getState().status).toBe("idle");
+    expect(transport.starts).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { deflateSync } from "zlib";
+import { NextRequest } from "next/server";
+import { expect } from "vitest";
+import { POST as createSession } from "@/app/api/session/route";
+
+export const ORIGIN = "http://localhost:3000";
+
+/** A solid-colour PNG, small enough to keep the tests fast. */
+export function pngBase64(rgb: [number, number, number], size = 16): string {
+  const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+  });
+  const crc32 = (bytes: Buffer) => {
+    let c = 0xffffffff;
+    for (const byte of bytes) c = crcTable[(c ^ byte) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+  };
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array.from({ length: size }, () => rgb).flat())]);
+  const pixels = Buffer.concat(Array.from({ length: size }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(pixels)),
+    chunk("IEND", Buffer.alloc(0))
+  ]).toString("base64");
+}
+
+export function jsonRequest(path: string, body: unknown, token?: string): NextRequest {
+  return new NextRequest(`${ORIGIN}${path}`, {
+    method: "POST",
+    headers: {
+      origin: ORIGIN,
+      "content-type": "application/json",
+      ...(token ? { authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+export async function newSession(): Promise<string> {
+  const response = await createSession(new NextRequest(`${ORIGIN}/api/session`, {
+    method: "POST",
+    headers: { origin: ORIGIN }
+  }));
+  expect(response.status).toBe(200);
+  return (await response.json()).token;
+}
+
+/** A request whose body is sent as is, for malformed or oversized bodies. */
+export function rawRequest(path: string, body: string, token: string): NextRequest {
+  return new NextRequest(`${ORIGIN}${path}`, {
+    method: "POST",
+    headers: { origin: ORIGIN, "content-type": "application/json", authorization: `Bearer ${token}` },
+    body
+  });
+}
+
+/** Splits a Server-Sent Events body into its events. */
+export function parseEvents(stream: string): { event: string; data: Record<string, unknown> }[] {
+  return stream.trim().split("\n\n").map(block => {
+    const [eventLine, dataLine] = block.split("\n");
+    return { event: eventLine.replace("event: ", ""), data: JSON.parse(dataLine.replace("data: ", "")) };
+  });
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { MemoryRateLimitStore, RateLimiter, rateLimitHeaders } from "@/app/server/rate-limit";
+
+const config = { capacity: 2, refillIntervalMs: 1000, dailyQuota: 5 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createLimiter() {
+  return new RateLimiter(new MemoryRateLimitStore(), config, "test");
+}
+
+describe("RateLimiter", () => {
+  it("allows a burst up to capacity, then rejects until a token refills", async () => {
+    const limiter = createLimiter();
+    const now = 10 * DAY_MS;
+
+    expect((await limiter.consume("a", now)).allowed).toBe(true);
+    expect((await limiter.consume("a", now)).allowed).toBe(true);
+
+    const rejected = await limiter.consume("a", now);
+    expect(rejected).toMatchObject({ allowed: false, reason: "burst", retryAfterMs: 1000 });
+
+    expect((await limiter.consume("a", now + 1000)).allowed).toBe(true);
+  });
+
+  it("keeps separate buckets per key", async () => {
+    const limiter = createLimiter();
+    const now = 10 * DAY_MS;
+
+    await limiter.consume("a", now);
+    await limiter.consume("a", now);
+
+    expect((await limiter.consume("a", now)).allowed).toBe(false);
+    expect((await limiter.consume("b", now)).allowed).toBe(true);
+  });
+
+  it("counts the daily quota under its own key, whatever the burst key", async () => {
+    const limiter = createLimiter();
+    const start = 10 * DAY_MS;
+
+    for (let i = 0; i < config.dailyQuota; i++) {
+      const key = { burst: `session:${i}`, daily: "ip:1.2.3.4" };
+      expect((await limiter.consume(key, start)).allowed).toBe(true);
+    }
+
+    const rotated = await limiter.consume({ burst: "session:new", daily: "ip:1.2.3.4" }, start);
+    expect(rotated).toMatchObject({ allowed: false, reason: "daily" });
+    expect((await limiter.consume({ burst: "session:new", daily: "ip:5.6.7.8" }, start)).allowed).toBe(true);
+  });
+
+  it("never lets concurrent requests spend the same token", async () => {
+    const limiter = createLimiter();
+    const now = 10 * DAY_MS;
+
+    const decisions = await Promise.all(Array.from({ length: 6 }, () => limiter.consume("a", now)));
+
+    expect(decisions.filter(decision => decision.allowed)).toHaveLength(config.capacity);
+  });
+
+  it("rejects past the daily quota until the next UTC day", async () => {
+    const limiter = createLimiter();
+    const start = 10 * DAY_MS;
+
+    for (let i = 0; i < config.dailyQuota; i++) {
+      expect((await limiter.consume("a", start + i * 1000)).allowed).toBe(true);
+    }
+
+    const rejected = await limiter.consume("a", start + 10_000);
+    expect(rejected).toMatchObject({ allowed: false, reason: "daily", dailyRemaining: 0 });
+    expect(rejected.retryAfterMs).toBe(DAY_MS - 10_000);
+
+    expect((await limiter.consume("a", start + DAY_MS)).allowed).toBe(true);
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("applies updates to the current value and treats expired entries as missing", async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.update<number>("n", 1000, current => (current ?? 0) + 1)).toBe(1);
+    expect(await store.update<number>("n", 1000, current => (current ?? 0) + 1)).toBe(2);
+    expect(await store.update<number>("gone", -1, () => 5)).toBe(5);
+    expect(await store.update<number>("gone", 1000, current => current ?? 0)).toBe(0);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("describes both windows and adds Retry-After on rejections", async () => {
+    const limiter = createLimiter();
+    const now = 10 * DAY_MS;
+    await limiter.consume("a", now);
+    await limiter.consume("a", now);
+
+    const headers = rateLimitHeaders(await limiter.consume("a", now), config);
+
+    expect(headers).toEqual({
+      "RateLimit-Policy": "2;w=2, 5;w=86400",
+      "RateLimit-Limit": "2",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": "1",
+      "Retry-After": "1"
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ChangesStreamSplitter, splitChanges } from "@/app/server/scene-changes";
+
+function streamInChunks(text: string, size: number) {
+  const splitter = new ChangesStreamSplitter();
+  let emitted = "";
+  for (let i = 0; i < text.length; i += size) {
+    emitted += splitter.push(text.slice(i, i + size));
+  }
+  return { emitted, result: splitter.finish() };
+}
+
+describe("splitChanges", () => {
+  it("separates the final Changes: line", () => {
+    expect(splitChanges("A mug on a desk.\nChanges: The mug moved left.")).toEqual({
+      description: "A mug on a desk.",
+      changes: "The mug moved left."
+    });
+  });
+
+  it("reports no changes for None", () => {
+    expect(splitChanges("A mug on a desk.\nChanges: None").changes).toBeNull();
+  });
+
+  it("treats replies without the marker as description only", () => {
+    expect(splitChanges("A mug on a desk.")).toEqual({ description: "A mug on a desk.", changes: null });
+  });
+
+  it("splits at the last marker when the description quotes one", () => {
+    const reply = "A page headed 'Changes: v2.1' lists fixes.\nChanges: The page was turned.";
+
+    expect(splitChanges(reply)).toEqual({
+      description: "A page headed 'Changes: v2.1' lists fixes.",
+      changes: "The page was turned."
+    });
+  });
+});
+
+describe("ChangesStreamSplitter", () => {
+  it("never emits the Changes: line, whatever the chunk size", () => {
+    const reply = "A mug on a desk. A laptop is open.\nChanges: The laptop was opened.";
+
+    for (const size of [1, 3, 7, 64]) {
+      const { emitted, result } = streamInChunks(reply, size);
+      expect(emitted).not.toContain("Changes:");
+      expect(emitted.trim()).toBe(result.description);
+      expect(result.changes).toBe("The laptop was opened.");
+    }
+  });
+
+  it("splits where splitChanges does when the description contains the marker", () => {
+    const reply = "A page headed 'Changes: v2.1' lists fixes.\nChanges: The page was turned.";
+
+    for (const size of [1, 4, 16]) {
+      const { emitted, result } = streamInChunks(reply, size);
+      expect(result).toEqual(splitChanges(reply));
+      expect(emitted.trim()).toBe(result.description);
+    }
+  });
+
+  it("only holds back a possible marker's length when there is none", () => {
+    const reply = "A mug on a desk next to a laptop.";
+    const { emitted, result } = streamInChunks(reply, 5);
+
+    expect(emitted).toBe(reply.slice(0, reply.length - "Changes:".length));
+    expect(result).toEqual({ description: reply, changes: null });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  SessionTokenError,
+  consumeSessionBudget,
+  isAllowedOrigin,
+  issueSessionToken,
+  refreshSessionToken,
+  sessionTokenConfig,
+  verifySessionToken
+} from "@/app/server/session-token";
+
+const ORIGIN = "http://localhost:3000";
+
+function expectTokenError(fn: () => unknown, code: string) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SessionTokenError);
+    expect((error as SessionTokenError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected a ${code} error`);
+}
+
+describe("session tokens", () => {
+  it("verifies a token it issued for the same origin", () => {
+    const { token, claims } = issueSessionToken(ORIGIN);
+
+    expect(verifySessionToken(token, ORIGIN)).toEqual(claims);
+  });
+
+  it("rejects a tampered payload", () => {
+    const { token } = issueSessionToken(ORIGIN);
+    const [payload, signature] = token.split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, budget: 1_000_000 })).toString("base64url");
+
+    expectTokenError(() => verifySessionToken(`${forged}.${signature}`, ORIGIN), "invalid_token");
+  });
+
+  it("rejects malformed tokens", () => {
+    expectTokenError(() => verifySessionToken("not-a-token", ORIGIN), "invalid_token");
+  });
+
+  it("rejects expired tokens", () => {
+    const issuedAt = Date.now() - 60 * 60 * 1000;
+    const { token, claims } = issueSessionToken(ORIGIN, issuedAt);
+
+    expectTokenError(() => verifySessionToken(token, ORIGIN, claims.exp * 1000), "token_expired");
+  });
+
+  it("rejects tokens presented from another origin", () => {
+    const { token } = issueSessionToken(ORIGIN);
+
+    expectTokenError(() => verifySessionToken(token, "https://evil.example"), "origin_mismatch");
+    expectTokenError(() => verifySessionToken(token, null), "origin_mismatch");
+  });
+});
+
+describe("refreshSessionToken", () => {
+  it("keeps the session id, start time and budget", () => {
+    const issuedAt = Date.now() - 60 * 60 * 1000;
+    const { token, claims } = issueSessionToken(ORIGIN, issuedAt);
+
+    const refreshed = refreshSessionToken(token, ORIGIN);
+
+    expect(refreshed.claims).toMatchObject({ sid: claims.sid, sat: claims.sat, budget: claims.budget });
+    expect(verifySessionToken(refreshed.token, ORIGIN)).toEqual(refreshed.claims);
+  });
+
+  it("refuses sessions past their maximum age", () => {
+    const { token, claims } = issueSessionToken(ORIGIN);
+    const ends = (claims.sat + sessionTokenConfig.maxAgeSeconds) * 1000;
+
+    expect(refreshSessionToken(token, ORIGIN, ends - 60_000).claims.exp * 1000).toBe(ends);
+    expectTokenError(() => refreshSessionToken(token, ORIGIN, ends), "token_expired");
+  });
+
+  it("refuses forged tokens and other origins", () => {
+    const { token } = issueSessionToken(ORIGIN);
+
+    expectTokenError(() => refreshSessionToken(`${token}x`, ORIGIN), "invalid_token");
+    expectTokenError(() => refreshSessionToken(token, "http://localhost:4000"), "origin_mismatch");
+  });
+});
+
+describe("consumeSessionBudget", () => {
+  it("counts down and then throws budget_exhausted", async () => {
+    const { claims } = issueSessionToken(ORIGIN);
+    const limited = { ...claims, budget: 2 };
+
+    expect(await consumeSessionBudget(limited)).toBe(1);
+    expect(await consumeSessionBudget(limited)).toBe(0);
+    await expect(consumeSessionBudget(limited)).rejects.toMatchObject({ code: "budget_exhausted", status: 403 });
+  });
+
+  it("carries the spent count over to refreshed tokens", async () => {
+    const { token, claims } = issueSessionToken(ORIGIN);
+    const limited = { ...claims, budget: 2 };
+    await consumeSessionBudget(limited);
+
+    const refreshed = { ...refreshSessionToken(token, ORIGIN).claims, budget: 2 };
+
+    expect(await consumeSessionBudget(refreshed)).toBe(0);
+    await expect(consumeSessionBudget(refreshed)).rejects.toMatchObject({ code: "budget_exhausted" });
+  });
+
+  it("never charges concurrent requests past the budget", async () => {
+    const { claims } = issueSessionToken(ORIGIN);
+    const limited = { ...claims, budget: 2 };
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => consumeSessionBudget(limited)));
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(2);
+  });
+
+  it("is unlimited without a budget claim", async () => {
+    const { claims } = issueSessionToken(ORIGIN);
+    const { budget: _, ...unlimited } = claims;
+
+    expect(await consumeSessionBudget(unlimited)).toBeUndefined();
+  });
+});
+
+describe("isAllowedOrigin", () => {
+  it("allows only loopback origins when nothing is configured outside production", () => {
+    expect(isAllowedOrigin("http://localhost:3000")).toBe(true);
+    expect(isAllowedOrigin("http://127.0.0.1:8080")).toBe(true);
+    expect(isAllowedOrigin("https://example.com")).toBe(false);
+    expect(isAllowedOrigin("not a url")).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { ImageHash, VisionCache } from "@/app/server/vision-cache";
+
+const config = { ttlMs: 1000, maxEntries: 2, maxDistance: 2 };
+const value = (description: string) => ({ description, scene: null });
+
+function bitsHash(hex: string, bits: number[]): ImageHash {
+  return { hex, bits: Uint8Array.from(bits) };
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("VisionCache", () => {
+  it("matches hashes within the configured distance", () => {
+    const cache = new VisionCache(config);
+
+    expect(cache.matches(bitsHash("a", [0b0000]), bitsHash("b", [0b0011]))).toBe(true);
+    expect(cache.matches(bitsHash("a", [0b0000]), bitsHash("b", [0b0111]))).toBe(false);
+    // Exact hashes carry no bits and only match themselves.
+    expect(cache.matches({ hex: "a", bits: null }, { hex: "a", bits: null })).toBe(true);
+    expect(cache.matches({ hex: "a", bits: null }, { hex: "b", bits: null })).toBe(false);
+  });
+
+  it("returns entries by scope and near-identical hash until they expire", () => {
+    const cache = new VisionCache(config);
+    cache.set("scope", bitsHash("a", [0]), value("a mug"), 0);
+
+    expect(cache.get("scope", bitsHash("b", [1]), 500)).toEqual(value("a mug"));
+    expect(cache.get("other", bitsHash("a", [0]), 500)).toBeNull();
+    expect(cache.get("scope", bitsHash("a", [0]), 1000)).toBeNull();
+  });
+
+  it("evicts the least recently used entry", () => {
+    const cache = new VisionCache(config);
+    cache.set("scope", { hex: "a", bits: null }, value("a"), 0);
+    cache.set("scope", { hex: "b", bits: null }, value("b"), 0);
+    cache.get("scope", { hex: "a", bits: null }, 0);
+    cache.set("scope", { hex: "c", bits: null }, value("c"), 0);
+
+    expect(cache.get("scope", { hex: "a", bits: null }, 0)).toEqual(value("a"));
+    expect(cache.get("scope", { hex: "b", bits: null }, 0)).toBeNull();
+  });
+
+  describe("coalesce", () => {
+    it("shares one running call between identical requests", async () => {
+      const cache = new VisionCache(config);
+      const upstream = deferred<string>();
+      let calls = 0;
+      const produce = () => {
+        calls++;
+        return upstream.promise;
+      };
+
+      const first = cache.coalesce("key", produce);
+      const second = cache.coalesce("key", produce);
+      upstream.resolve("a mug");
+
+      expect(await first).toEqual({ value: "a mug", coalesced: false });
+      expect(await second).toEqual({ value: "a mug", coalesced: true });
+      expect(calls).toBe(1);
+    });
+
+    it("replays streamed chunks to late joiners", async () => {
+      const cache = new VisionCache(config);
+      const upstream = deferred<string>();
+      let emit!: (text: string) => void;
+
+      const firstChunks: string[] = [];
+      const first = cache.coalesce("key", async push => {
+        emit = push;
+        return upstream.promise;
+      }, { onChunk: text => firstChunks.push(text) });
+      emit("A ");
+
+      const secondChunks: string[] = [];
+      const second = cache.coalesce("key", () => upstream.promise, { onChunk: text => secondChunks.push(text) });
+      emit("mug.");
+      upstream.resolve("A mug.");
+      await Promise.all([first, second]);
+
+      expect(firstChunks).toEqual(["A ", "mug."]);
+      expect(secondChunks).toEqual(["A ", "mug."]);
+    });
+
+    it("keeps the call running for the others when the first caller leaves", async () => {
+      const cache = new VisionCache(config);
+      const upstream = deferred<string>();
+      let signal!: AbortSignal;
+      const leaving = new AbortController();
+
+      const first = cache.coalesce("key", async (_, upstreamSignal) => {
+        signal = upstreamSignal;
+        return upstream.promise;
+      }, { signal: leaving.signal });
+      const second = cache.coalesce("key", () => upstream.promise);
+
+      leaving.abort();
+      await expect(first).rejects.toBeDefined();
+      expect(signal.aborted).toBe(false);
+
+      upstream.resolve("a mug");
+      expect(await second).toEqual({ value: "a mug", coalesced: true });
+    });
+
+    it("aborts the upstream call once every caller has left", async () => {
+      const cache = new VisionCache(config);
+      let signal!: AbortSignal;
+      const a = new AbortController();
+      const b = new AbortController();
+
+      const first = cache.coalesce("key", async (_, upstreamSignal) => {
+        signal = upstreamSignal;
+        return new Promise<string>(() => {});
+      }, { signal: a.signal });
+      const second = cache.coalesce("key", () => Promise.resolve("unused"), { signal: b.signal });
+
+      a.abort();
+      await expect(first).rejects.toBeDefined();
+      expect(signal.aborted).toBe(false);
+
+      b.abort();
+      await expect(second).rejects.toBeDefined();
+      expect(signal.aborted).toBe(true);
+    });
+
+    it("starts a new call once the previous one has settled", async () => {
+      const cache = new VisionCache(config);
+
+      await cache.coalesce("key", async () => "first");
+      expect(await cache.coalesce("key", async () => "second")).toEqual({ value: "second", coalesced: false });
+    });
+  });
+});
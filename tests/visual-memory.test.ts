@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { VisualMemory } from "@/app/visual-memory";
+
+describe("VisualMemory", () => {
+  it("keeps the rolling summary available after it was sent, for a reconnected call", () => {
+    const memory = new VisualMemory();
+    memory.observe("A red mug on a desk.", undefined, undefined, 1000);
+
+    const sent = memory.takeRollingSummary(2000);
+
+    expect(sent).toContain("A red mug on a desk.");
+    expect(memory.takeRollingSummary(3000)).toBeNull();
+    expect(memory.getRollingSummary(3000)).toBe(sent);
+  });
+});
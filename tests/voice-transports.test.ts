@@ -0,0 +1,131 @@
+import { EventEmitter } from "events";
+import { describe, expect, it, vi } from "vitest";
+import { LocalVoiceTransport, VapiVoiceTransport, isTransientVoiceError, VoiceTransportError } from "@/app/voice-transports";
+import { parseVisionToolCalls } from "@/app/vision-tools";
+
+const vapi = vi.hoisted(() => ({ instances: [] as { sent: unknown[]; emit(event: string, ...args: unknown[]): boolean }[] }));
+
+vi.mock("@vapi-ai/web", () => ({
+  default: class extends EventEmitter {
+    sent: unknown[] = [];
+
+    constructor() {
+      super();
+      vapi.instances.push(this);
+    }
+
+    send(message: unknown) {
+      this.sent.push(message);
+    }
+  }
+}));
+
+describe("LocalVoiceTransport", () => {
+  it("emits call-start and call-end around a call", async () => {
+    const transport = new LocalVoiceTransport();
+    const events: string[] = [];
+    transport.on("call-start", () => events.push("start"));
+    transport.on("call-end", () => events.push("end"));
+
+    const { callId } = await transport.start();
+    transport.stop();
+    transport.stop();
+
+    expect(callId).toMatch(/^local_/);
+    expect(events).toEqual(["start", "end"]);
+  });
+
+  it("records context, speech and tool results", async () => {
+    const transport = new LocalVoiceTransport();
+    const transcripts: string[] = [];
+    transport.on("transcript", (role, text) => transcripts.push(`${role}: ${text}`));
+
+    transport.addContext("A mug on a desk.");
+    transport.addContext("The user pointed at the label.", { respond: true });
+    transport.say("I can see a mug.");
+    transport.sendToolResult({ id: "call_1", name: "describe_scene" }, "A mug on a desk.");
+    transport.simulateTranscript("user", "What is that?");
+
+    expect(transport.context).toEqual([
+      { content: "A mug on a desk.", respond: false },
+      { content: "The user pointed at the label.", respond: true }
+    ]);
+    expect(transport.spoken).toEqual(["I can see a mug."]);
+    expect(transport.toolResults).toEqual([{ id: "call_1", name: "describe_scene", result: "A mug on a desk." }]);
+    expect(transcripts).toEqual(["assistant: I can see a mug.", "user: What is that?"]);
+  });
+
+  it("delivers tool calls that parse into vision tool calls", () => {
+    const transport = new LocalVoiceTransport();
+    const received: ReturnType<typeof parseVisionToolCalls>[] = [];
+    transport.on("tool-calls", message => received.push(parseVisionToolCalls(message)));
+
+    transport.simulateToolCalls({
+      type: "tool-calls",
+      toolCallList: [
+        { id: "call_1", function: { name: "read_text", arguments: JSON.stringify({ question: "What does it say?" }) } },
+        { id: "call_2", function: { name: "unknown_tool", arguments: "{}" } }
+      ]
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toHaveLength(1);
+    expect(received[0][0]).toMatchObject({ id: "call_1", name: "read_text" });
+  });
+
+  it("stops delivering events after unsubscribe and destroy", async () => {
+    const transport = new LocalVoiceTransport();
+    let starts = 0;
+    const unsubscribe = transport.on("call-start", () => starts++);
+
+    await transport.start();
+    unsubscribe();
+    transport.stop();
+    await transport.start();
+
+    expect(starts).toBe(1);
+  });
+});
+
+describe("VapiVoiceTransport", () => {
+  it("sends context and tool results as add-message requests", () => {
+    const transport = new VapiVoiceTransport("key", "assistant");
+    const { sent } = vapi.instances[vapi.instances.length - 1];
+
+    transport.addContext("A mug on a desk.");
+    transport.sendToolResult({ id: "call_1", name: "describe_scene" }, "A mug.");
+
+    expect(sent).toEqual([
+      { type: "add-message", message: { role: "system", content: "A mug on a desk." }, triggerResponseEnabled: false },
+      { type: "add-message", message: { role: "tool", tool_call_id: "call_1", content: "A mug." }, triggerResponseEnabled: true }
+    ]);
+  });
+
+  it("forwards final transcripts and classifies errors", () => {
+    const transport = new VapiVoiceTransport("key", "assistant");
+    const client = vapi.instances[vapi.instances.length - 1];
+    const transcripts: string[] = [];
+    const errors: VoiceTransportError[] = [];
+    transport.on("transcript", (role, text) => transcripts.push(`${role}: ${text}`));
+    transport.on("error", error => errors.push(error as VoiceTransportError));
+
+    client.emit("message", { type: "transcript", transcriptType: "partial", role: "user", transcript: "Wh" });
+    client.emit("message", { type: "transcript", transcriptType: "final", role: "user", transcript: "What is that?" });
+    client.emit("message", null);
+    client.emit("error", { error: { statusCode: 401, message: "Invalid key" } });
+    client.emit("error", { message: "Network lost" });
+    client.emit("error", { errorMsg: "Meeting has ended" });
+
+    expect(transcripts).toEqual(["user: What is that?"]);
+    expect(errors.map(error => [error.message, error.transient])).toEqual([["Invalid key", false], ["Network lost", true]]);
+  });
+});
+
+describe("isTransientVoiceError", () => {
+  it("trusts the transport's classification and treats permission errors as permanent", () => {
+    expect(isTransientVoiceError(new VoiceTransportError("Dropped", true))).toBe(true);
+    expect(isTransientVoiceError(new VoiceTransportError("Bad key", false))).toBe(false);
+    expect(isTransientVoiceError(Object.assign(new Error("Denied"), { name: "NotAllowedError" }))).toBe(false);
+    expect(isTransientVoiceError(new Error("Something odd"))).toBe(true);
+  });
+});
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) }
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    // Read at module load by the server code, so they are set before any import.
+    env: {
+      SESSION_TOKEN_SECRET: "test-secret-test-secret-test-secret",
+      VISION_PROVIDER: "mock"
+    }
+  }
+});